@@ -10,8 +10,10 @@
  */
 
 import * as i2cBus from "i2c-bus";
+import { zip } from "rxjs";
+import { mergeMap } from "rxjs/operators";
 
-import { Bno055Driver } from "../index";
+import { Bno055CalibrationStore, Bno055Driver } from "../index";
 
 
 const bno055 = new Bno055Driver({
@@ -20,6 +22,7 @@ const bno055 = new Bno055Driver({
     i2c: i2cBus.openSync(18),
     mode: "ndof"
 });
+const store = new Bno055CalibrationStore("calibration.json");
 
 
 console.log("Perform the following actions to calibrate all of the sensors (CTRL-C to abort):");
@@ -33,12 +36,16 @@ console.log("- Place the device in a single stable position for a period of few
 console.log("  allow the gyroscope to calibrate.");
 console.log("- Make some random movements (for example: writing the number ‘8’ in the air)");
 console.log("  to allow the magnometer to calibrate.");
-bno055.getCalibrationData()
-    .subscribe(
-        calibrationData => {
+zip(bno055.getCalibrationData(), bno055.getDeviceInfo())
+    .pipe(
+        mergeMap(([calibrationData, deviceInfo]) => {
             console.log("Calibration data:");
             console.log(calibrationData);
-        },
+            return store.save(Bno055CalibrationStore.createProfile(calibrationData, deviceInfo, bno055.mode));
+        })
+    )
+    .subscribe(
+        undefined,
         (err: any) => console.log("Error: " + err),
-        () => console.log("Calibration completed; use the above calidbration data to speed up the other examples.")
+        () => console.log(`Calibration completed; give "${store.path}" as the calibrationProfile option to speed up the other examples.`)
     );
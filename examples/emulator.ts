@@ -0,0 +1,43 @@
+/*
+ * examples/emulator.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Example to stream quaternion values from the emulator (no hardware needed).
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+// tslint:disable-next-line:no-require-imports
+import printf = require("printf");
+import { take } from "rxjs/operators";
+
+import { Bno055Driver, Bno055Emulator } from "../index";
+
+
+// slowly rotate around the Z axis
+const emulator = new Bno055Emulator({
+    motion: time => {
+        const angle = time / 1000;
+        return { orientation: { w: Math.cos(angle / 2), x: 0, y: 0, z: Math.sin(angle / 2) } };
+    }
+});
+
+const bno055 = new Bno055Driver({
+    // uncomment for debugging information
+    // debug: true,
+    i2c: emulator,
+    mode: "ndof"
+});
+
+
+console.log("Reading 50 quaternion values (once initialization is complete)...");
+bno055.streamQuaternions()
+    .pipe(
+        take(50)
+    )
+    .subscribe(
+        next => console.log(printf("w: % 6.2f, x: % 6.2f, y: % 6.2f, z: % 6.2f", next.w, next.x, next.y, next.z)),
+        (err: any) => console.log("Error: " + err),
+        () => console.log("Completed")
+    );
@@ -8,6 +8,245 @@
  * Licensed under the MIT license.
  */
 
-import { Bno055CalibrationData, Bno055Driver, Bno055Mode, Bno055Options, Quaternion, Vector } from "./src/bno055";
+import {
+    Bno055AccelerationUnit,
+    Bno055AccelerometerBandwidth,
+    Bno055AccelerometerPowerMode,
+    Bno055AccelerometerRange,
+    Bno055AngleUnit,
+    Bno055AngularRateUnit,
+    Bno055Axis,
+    Bno055AxisRemap,
+    Bno055BusStatistics,
+    Bno055CalibrationData,
+    Bno055CalibrationLevel,
+    Bno055CalibrationStatus,
+    Bno055DeviceInfo,
+    Bno055Driver,
+    Bno055Envelope,
+    Bno055EnvelopeOptions,
+    Bno055EnvelopeStream,
+    Bno055GyroscopeAnyMotionSettings,
+    Bno055GyroscopeBandwidth,
+    Bno055GyroscopeHighRateSettings,
+    Bno055GyroscopeRange,
+    Bno055Health,
+    Bno055InterruptConfig,
+    Bno055InterruptSettings,
+    Bno055InterruptStatus,
+    Bno055InterruptType,
+    Bno055IteratorOptions,
+    Bno055MagneticFieldUnit,
+    Bno055MagnetometerDataRate,
+    Bno055MagnetometerOperationMode,
+    Bno055Mode,
+    Bno055Options,
+    Bno055Placement,
+    Bno055PowerMode,
+    Bno055RecoveryPolicy,
+    Bno055SelfTestResult,
+    Bno055SensorConfig,
+    Bno055SignedAxis,
+    Bno055Snapshot,
+    Bno055SystemError,
+    Bno055SystemStatus,
+    Bno055TemperatureUnit,
+    Bno055Units,
+    EulerAngles,
+    Quaternion,
+    Temperature,
+    Vector,
+    WithUnit
+} from "./src/bno055";
+import {
+    toAsyncIterable
+} from "./src/asyncIterator";
+import {
+    Bno055CalibrationProfile,
+    Bno055CalibrationStore
+} from "./src/calibrationStore";
+import {
+    Bno055BootTimeoutError,
+    Bno055BusError,
+    Bno055CalibrationError,
+    Bno055CalibrationMismatchError,
+    Bno055ChipIdError,
+    Bno055Error,
+    Bno055SelfTestError,
+    Bno055ShortReadError
+} from "./src/errors";
+import {
+    Bno055FilterOptions,
+    averageQuaternions,
+    decimate,
+    highPass,
+    lowPass,
+    medianFilter,
+    movingAverage,
+    rejectSpikes,
+    resample
+} from "./src/filters";
+import {
+    AxisAngle,
+    RotationMatrix,
+    axisAngleToQuaternion,
+    eulerToQuaternion,
+    quaternionConjugate,
+    quaternionMultiply,
+    quaternionNormalize,
+    quaternionSlerp,
+    quaternionToAxisAngle,
+    quaternionToEuler,
+    quaternionToRotationMatrix,
+    relativeOrientation,
+    rotateToSensorFrame,
+    rotateToWorldFrame,
+    rotationMatrixToQuaternion,
+    vectorAdd,
+    vectorCross,
+    vectorDot,
+    vectorNorm,
+    vectorNormalize,
+    vectorScale
+} from "./src/math";
+import {
+    Bno055Emulator,
+    Bno055EmulatorFault,
+    Bno055EmulatorMotion,
+    Bno055EmulatorOptions,
+    Bno055EmulatorSample
+} from "./src/emulator";
+import {
+    Bno055I2cBus,
+    I2cTransport
+} from "./src/i2cTransport";
+import {
+    Bno055RecordedSample,
+    Bno055RecordedStream,
+    Bno055Recorder,
+    Bno055RecorderOptions,
+    Bno055Recording,
+    Bno055RecordingFormat,
+    Bno055RecordingHeader,
+    Bno055Replay,
+    Bno055ReplayOptions,
+    Bno055StreamSource
+} from "./src/recording";
+import {
+    Bno055Transport
+} from "./src/transport";
+import {
+    UartTransport
+} from "./src/uartTransport";
 
-export { Bno055Driver as default, Bno055CalibrationData, Bno055Driver, Bno055Mode, Bno055Options, Quaternion, Vector };
+export {
+    Bno055Driver as default,
+    AxisAngle,
+    Bno055AccelerationUnit,
+    Bno055AccelerometerBandwidth,
+    Bno055AccelerometerPowerMode,
+    Bno055AccelerometerRange,
+    Bno055AngleUnit,
+    Bno055AngularRateUnit,
+    Bno055Axis,
+    Bno055AxisRemap,
+    Bno055BootTimeoutError,
+    Bno055BusError,
+    Bno055BusStatistics,
+    Bno055CalibrationData,
+    Bno055CalibrationError,
+    Bno055CalibrationLevel,
+    Bno055CalibrationMismatchError,
+    Bno055CalibrationProfile,
+    Bno055CalibrationStatus,
+    Bno055CalibrationStore,
+    Bno055ChipIdError,
+    Bno055DeviceInfo,
+    Bno055Driver,
+    Bno055Emulator,
+    Bno055EmulatorFault,
+    Bno055EmulatorMotion,
+    Bno055EmulatorOptions,
+    Bno055EmulatorSample,
+    Bno055Envelope,
+    Bno055EnvelopeOptions,
+    Bno055EnvelopeStream,
+    Bno055Error,
+    Bno055FilterOptions,
+    Bno055GyroscopeAnyMotionSettings,
+    Bno055GyroscopeBandwidth,
+    Bno055GyroscopeHighRateSettings,
+    Bno055GyroscopeRange,
+    Bno055Health,
+    Bno055I2cBus,
+    Bno055InterruptConfig,
+    Bno055InterruptSettings,
+    Bno055InterruptStatus,
+    Bno055InterruptType,
+    Bno055IteratorOptions,
+    Bno055MagneticFieldUnit,
+    Bno055MagnetometerDataRate,
+    Bno055MagnetometerOperationMode,
+    Bno055Mode,
+    Bno055Options,
+    Bno055Placement,
+    Bno055PowerMode,
+    Bno055RecordedSample,
+    Bno055RecordedStream,
+    Bno055Recorder,
+    Bno055RecorderOptions,
+    Bno055Recording,
+    Bno055RecordingFormat,
+    Bno055RecordingHeader,
+    Bno055RecoveryPolicy,
+    Bno055Replay,
+    Bno055ReplayOptions,
+    Bno055SelfTestError,
+    Bno055SelfTestResult,
+    Bno055SensorConfig,
+    Bno055ShortReadError,
+    Bno055SignedAxis,
+    Bno055Snapshot,
+    Bno055StreamSource,
+    Bno055SystemError,
+    Bno055SystemStatus,
+    Bno055TemperatureUnit,
+    Bno055Transport,
+    Bno055Units,
+    EulerAngles,
+    I2cTransport,
+    Quaternion,
+    RotationMatrix,
+    Temperature,
+    UartTransport,
+    Vector,
+    WithUnit,
+    averageQuaternions,
+    axisAngleToQuaternion,
+    decimate,
+    eulerToQuaternion,
+    highPass,
+    lowPass,
+    medianFilter,
+    movingAverage,
+    quaternionConjugate,
+    quaternionMultiply,
+    quaternionNormalize,
+    quaternionSlerp,
+    quaternionToAxisAngle,
+    quaternionToEuler,
+    quaternionToRotationMatrix,
+    rejectSpikes,
+    relativeOrientation,
+    resample,
+    rotateToSensorFrame,
+    rotateToWorldFrame,
+    rotationMatrixToQuaternion,
+    toAsyncIterable,
+    vectorAdd,
+    vectorCross,
+    vectorDot,
+    vectorNorm,
+    vectorNormalize,
+    vectorScale
+};
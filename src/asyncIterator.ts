@@ -0,0 +1,114 @@
+/*
+ * src/asyncIterator.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Adapter from observables to async iterators for BNO055 absolute orientation sensor.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import { Observable, Subscription } from "rxjs";
+
+
+interface PendingResult<T> {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (err: Error) => void;
+}
+
+
+// a finished iterator has no value (like a finished generator), so the same result
+// can be given by an iterator of any type
+const doneResult = { done: true, value: undefined } as IteratorResult<never>;
+
+
+class ObservableAsyncIterator<T> implements AsyncIterator<T> {
+    constructor(private readonly _observable: Observable<T>) {
+    }
+
+
+    next(): Promise<IteratorResult<T>> {
+        // the observable is only subscribed to once the first value is requested
+        if (!this._subscription && !this._done) {
+            this._subscription = this._observable.subscribe(
+                value => this._push(value),
+                err => this._fail(err),
+                () => this._finish()
+            );
+        }
+
+        if (this._values.length > 0) {
+            return Promise.resolve({ done: false, value: this._values.shift() as T });
+        }
+
+        if (this._error !== undefined) {
+            // the error is only reported once, after which the iterator is done
+            const err = this._error;
+            this._error = undefined;
+            return Promise.reject(err);
+        }
+
+        if (this._done) {
+            return Promise.resolve(doneResult);
+        }
+
+        return new Promise<IteratorResult<T>>((resolve, reject) => this._pending.push({ resolve, reject }));
+    }
+
+
+    return(): Promise<IteratorResult<T>> {
+        // called when a for-await loop exits early, so the observable is unsubscribed from
+        this._values = [];
+        this._error = undefined;
+        this._finish();
+        return Promise.resolve(doneResult);
+    }
+
+
+    private _fail(err: Error): void {
+        const pending = this._pending.shift();
+        if (pending) {
+            pending.reject(err);
+        } else {
+            this._error = err;
+        }
+        this._finish();
+    }
+
+
+    private _finish(): void {
+        this._done = true;
+        if (this._subscription) {
+            this._subscription.unsubscribe();
+        }
+        this._pending.splice(0).forEach(pending => pending.resolve(doneResult));
+    }
+
+
+    private _push(value: T): void {
+        const pending = this._pending.shift();
+        if (pending) {
+            pending.resolve({ done: false, value });
+        } else {
+            this._values.push(value);
+        }
+    }
+
+
+    private _done: boolean = false;
+    private _error?: Error;
+    private readonly _pending: Array<PendingResult<T>> = [];
+    private _subscription?: Subscription;
+    private _values: T[] = [];
+}
+
+
+export function toAsyncIterable<T>(observable: Observable<T>): AsyncIterableIterator<T> {
+    const iterator = new ObservableAsyncIterator(observable) as AsyncIterator<T> as AsyncIterableIterator<T>;
+    // Node.js 0.10 does not have symbols (and older versions do not have this one), so the
+    // iterator is only made iterable where it can be; next() and return() work everywhere
+    if (typeof Symbol === "function" && Symbol.asyncIterator) {
+        iterator[Symbol.asyncIterator] = () => iterator;
+    }
+    return iterator;
+}
@@ -10,11 +10,17 @@
 
 import * as debugFactory from "debug";
 import { polyfill as promisePolyfill } from "es6-promise";
-import { I2cBus } from "i2c-bus";
-import { Observable, concat as concatObservable, empty as emptyObservable, merge as mergeObservable, throwError as throwObservable, timer as timerObservable, ReplaySubject, zip as zipObservable } from "rxjs";
-import { catchError, mergeMap, tap, takeWhile, timeout, ignoreElements, publish, map, take } from "rxjs/operators";
+import { Observable, Subscription, concat as concatObservable, defer as deferObservable, empty as emptyObservable, from as fromObservable, merge as mergeObservable, of as ofObservable, throwError as throwObservable, timer as timerObservable, ReplaySubject, TimeoutError, zip as zipObservable } from "rxjs";
+import { catchError, distinctUntilChanged, exhaustMap, filter, finalize, mergeMap, retry, tap, takeUntil, takeWhile, timeout, ignoreElements, publish, map, take, toArray } from "rxjs/operators";
 
+import { toAsyncIterable } from "./asyncIterator";
+import { Bno055CalibrationProfile, Bno055CalibrationStore } from "./calibrationStore";
 import constants from "./constants";
+import { Bno055BootTimeoutError, Bno055BusError, Bno055CalibrationError, Bno055CalibrationMismatchError, Bno055ChipIdError, Bno055Error, Bno055SelfTestError, Bno055ShortReadError } from "./errors";
+import { Bno055I2cBus, I2cTransport } from "./i2cTransport";
+import { rotateToWorldFrame, vectorCross, vectorDot, vectorNorm } from "./math";
+import { TransactionQueue } from "./queue";
+import { Bno055Transport } from "./transport";
 
 
 type ByteReader = (register: number) => Observable<number>;
@@ -22,6 +28,29 @@ type BytesReader = (register: number, length: number) => Observable<Buffer>;
 type ByteWriter = (register: number, value: number) => Observable<never>;
 
 
+interface Divisors {
+    acceleration: number;
+    angularRate: number;
+    euler: number;
+    gravity: number;
+    linearAcceleration: number;
+    temperature: number;
+}
+
+
+interface SensorConfigRegisters {
+    accelerometer: number;
+    magnetometer: number;
+    gyroscope: number;
+}
+
+
+interface AxisRemapRegisters {
+    config: number;
+    sign: number;
+}
+
+
 export interface Quaternion {
     w: number;
     x: number;
@@ -37,6 +66,50 @@ export interface Vector {
 }
 
 
+export interface EulerAngles {
+    heading: number;
+    roll: number;
+    pitch: number;
+}
+
+
+export type Bno055AccelerationUnit = "m/s^2" | "mg";
+
+
+export type Bno055AngularRateUnit = "dps" | "rps";
+
+
+export type Bno055AngleUnit = "degrees" | "radians";
+
+
+export type Bno055TemperatureUnit = "celsius" | "fahrenheit";
+
+
+export type Bno055MagneticFieldUnit = "uT";
+
+
+export interface Bno055Units {
+    acceleration: Bno055AccelerationUnit;
+    angularRate: Bno055AngularRateUnit;
+    angle: Bno055AngleUnit;
+    temperature: Bno055TemperatureUnit;
+    convention: "windows" | "android";
+}
+
+
+export interface WithUnit<TUnit extends string> {
+    unit: TUnit;
+}
+
+
+export interface Temperature extends WithUnit<Bno055TemperatureUnit> {
+    value: number;
+}
+
+
+export type Bno055PowerMode = "normal" | "low power" | "suspend";
+
+
 export type Bno055Mode = "acconly" | "magonly" | "gyronly"
     | "accmag" | "accgyro" | "maggyro" | "amg" | "imuplus" | "compass"
     | "m4g" | "ndof_fmc_off" | "ndof";
@@ -45,6 +118,16 @@ export type Bno055Mode = "acconly" | "magonly" | "gyronly"
 type Bno055ModeWithConfig = "config" | Bno055Mode;
 
 
+const closedMessage = "The driver has been closed.";
+
+
+const fusionModes: Bno055Mode[] = ["imuplus", "compass", "m4g", "ndof_fmc_off", "ndof"];
+const accelerometerModes: Bno055Mode[] = ["acconly", "accmag", "accgyro", "amg", "imuplus", "compass", "m4g", "ndof_fmc_off", "ndof"];
+const gyroscopeModes: Bno055Mode[] = ["gyronly", "accgyro", "maggyro", "amg", "imuplus", "ndof_fmc_off", "ndof"];
+const headingModes: Bno055Mode[] = ["accmag", "amg", "compass", "m4g", "ndof_fmc_off", "ndof"];
+const magnetometerModes: Bno055Mode[] = ["magonly", "accmag", "maggyro", "amg", "compass", "m4g", "ndof_fmc_off", "ndof"];
+
+
 export interface Bno055CalibrationData {
     accelerometerOffset: Vector;
     accelerometerRadius: number;
@@ -54,11 +137,267 @@ export interface Bno055CalibrationData {
 }
 
 
+export type Bno055CalibrationLevel = 0 | 1 | 2 | 3;
+
+
+export interface Bno055CalibrationStatus {
+    system: Bno055CalibrationLevel;
+    gyroscope: Bno055CalibrationLevel;
+    accelerometer: Bno055CalibrationLevel;
+    magnetometer: Bno055CalibrationLevel;
+}
+
+
+export type Bno055Placement = "P0" | "P1" | "P2" | "P3" | "P4" | "P5" | "P6" | "P7";
+
+
+export type Bno055SignedAxis = "x" | "y" | "z" | "-x" | "-y" | "-z";
+
+
+export interface Bno055AxisRemap {
+    x: Bno055SignedAxis;
+    y: Bno055SignedAxis;
+    z: Bno055SignedAxis;
+}
+
+
+export type Bno055AccelerometerRange = 2 | 4 | 8 | 16;
+
+
+export type Bno055AccelerometerBandwidth = 7.81 | 15.63 | 31.25 | 62.5 | 125 | 250 | 500 | 1000;
+
+
+export type Bno055AccelerometerPowerMode = "normal" | "suspend" | "low power 1" | "standby" | "low power 2" | "deep suspend";
+
+
+export type Bno055GyroscopeRange = 2000 | 1000 | 500 | 250 | 125;
+
+
+export type Bno055GyroscopeBandwidth = 523 | 230 | 116 | 47 | 23 | 12 | 64 | 32;
+
+
+export type Bno055MagnetometerDataRate = 2 | 6 | 8 | 10 | 15 | 20 | 25 | 30;
+
+
+export type Bno055MagnetometerOperationMode = "low power" | "regular" | "enhanced regular" | "high accuracy";
+
+
+export interface Bno055SensorConfig {
+    accelerometer?: {
+        range?: Bno055AccelerometerRange; // in G
+        bandwidth?: Bno055AccelerometerBandwidth; // in Hz
+        powerMode?: Bno055AccelerometerPowerMode;
+    };
+    gyroscope?: {
+        range?: Bno055GyroscopeRange; // in dps
+        bandwidth?: Bno055GyroscopeBandwidth; // in Hz
+    };
+    magnetometer?: {
+        dataRate?: Bno055MagnetometerDataRate; // in Hz
+        operationMode?: Bno055MagnetometerOperationMode;
+    };
+}
+
+
+// indexed by the values of the fields in the ACC_CONFIG, GYR_CONFIG_0 and MAG_CONFIG registers
+const accelerometerRanges: Bno055AccelerometerRange[] = [2, 4, 8, 16];
+const accelerometerBandwidths: Bno055AccelerometerBandwidth[] = [7.81, 15.63, 31.25, 62.5, 125, 250, 500, 1000];
+const accelerometerPowerModes: Bno055AccelerometerPowerMode[] = ["normal", "suspend", "low power 1", "standby", "low power 2", "deep suspend"];
+const gyroscopeRanges: Bno055GyroscopeRange[] = [2000, 1000, 500, 250, 125];
+const gyroscopeBandwidths: Bno055GyroscopeBandwidth[] = [523, 230, 116, 47, 23, 12, 64, 32];
+const magnetometerDataRates: Bno055MagnetometerDataRate[] = [2, 6, 8, 10, 15, 20, 25, 30];
+const magnetometerOperationModes: Bno055MagnetometerOperationMode[] = ["low power", "regular", "enhanced regular", "high accuracy"];
+
+
+export type Bno055SystemStatus = "idle" | "error" | "initializing peripherals" | "initializing system"
+    | "executing self test" | "sensor fusion running" | "running without fusion" | "unknown";
+
+
+export type Bno055SystemError = "none" | "peripheral initialization error" | "system initialization error"
+    | "self test failed" | "register map value out of range" | "register map address out of range"
+    | "register map write error" | "low power mode not available" | "accelerometer power mode not available"
+    | "fusion algorithm configuration error" | "sensor configuration error" | "unknown";
+
+
+export interface Bno055SelfTestResult {
+    accelerometer: boolean;
+    magnetometer: boolean;
+    gyroscope: boolean;
+    microcontroller: boolean;
+}
+
+
+export interface Bno055InterruptStatus {
+    accelerometerAnyMotion: boolean;
+    accelerometerHighG: boolean;
+    accelerometerNoMotion: boolean;
+    gyroscopeAnyMotion: boolean;
+    gyroscopeHighRate: boolean;
+}
+
+
+export type Bno055Axis = "x" | "y" | "z";
+
+
+export type Bno055InterruptType = "accelerometerAnyMotion" | "accelerometerHighG" | "accelerometerNoMotion"
+    | "accelerometerSlowMotion" | "gyroscopeAnyMotion" | "gyroscopeHighRate";
+
+
+// the thresholds, durations and counts are the raw register values; see the
+// datasheet for how they relate to the sensor ranges and data rates
+export interface Bno055InterruptSettings {
+    threshold: number;
+    duration: number;
+    axes?: Bno055Axis[]; // default: all axes
+    pin?: boolean; // whether the interrupt is signalled on the INT pin (default: true)
+}
+
+
+export interface Bno055GyroscopeAnyMotionSettings {
+    threshold: number;
+    slopeSamples?: number;
+    awakeDuration?: number;
+    axes?: Bno055Axis[];
+    filtered?: boolean;
+    pin?: boolean;
+}
+
+
+export interface Bno055GyroscopeHighRateSettings extends Bno055InterruptSettings {
+    hysteresis?: number;
+    filtered?: boolean;
+}
+
+
+export interface Bno055InterruptConfig {
+    accelerometerAnyMotion?: Bno055InterruptSettings;
+    accelerometerHighG?: Bno055InterruptSettings;
+    accelerometerNoMotion?: Bno055InterruptSettings;
+    accelerometerSlowMotion?: Bno055InterruptSettings; // cannot be used with no motion
+    gyroscopeAnyMotion?: Bno055GyroscopeAnyMotionSettings;
+    gyroscopeHighRate?: Bno055GyroscopeHighRateSettings;
+}
+
+
+// the bits of each interrupt in the INT_EN, INT_MSK and INTR_STAT registers
+const interruptBits: { [interrupt in Bno055InterruptType]: number } = {
+    accelerometerAnyMotion: constants.INTR_STAT_ACCEL_ANY_MOTION,
+    accelerometerHighG: constants.INTR_STAT_ACCEL_HIGH_G,
+    accelerometerNoMotion: constants.INTR_STAT_ACCEL_NO_MOTION,
+    accelerometerSlowMotion: constants.INTR_STAT_ACCEL_NO_MOTION,
+    gyroscopeAnyMotion: constants.INTR_STAT_GYRO_ANY_MOTION,
+    gyroscopeHighRate: constants.INTR_STAT_GYRO_HIGH_RATE
+};
+
+
+export interface Bno055Health {
+    status: Bno055SystemStatus;
+    error: Bno055SystemError;
+    selfTest: Bno055SelfTestResult;
+    interrupts: Bno055InterruptStatus;
+    mainClockConfiguring: boolean;
+    healthy: boolean;
+}
+
+
+// indexed by the values of the SYS_STAT and SYS_ERR registers
+const systemStatuses: Bno055SystemStatus[] = ["idle", "error", "initializing peripherals", "initializing system",
+    "executing self test", "sensor fusion running", "running without fusion"];
+const systemErrors: Bno055SystemError[] = ["none", "peripheral initialization error", "system initialization error",
+    "self test failed", "register map value out of range", "register map address out of range",
+    "register map write error", "low power mode not available", "accelerometer power mode not available",
+    "fusion algorithm configuration error", "sensor configuration error"];
+
+
+export interface Bno055DeviceInfo {
+    address?: number;
+    chipId: number;
+    accelerometerRevision: number;
+    magnetometerRevision: number;
+    gyroscopeRevision: number;
+    softwareRevision: number;
+    bootloaderRevision: number;
+}
+
+
+export interface Bno055Snapshot {
+    accelerometer?: Vector & WithUnit<Bno055AccelerationUnit>;
+    magnetometer?: Vector & WithUnit<Bno055MagneticFieldUnit>;
+    gyroscope?: Vector & WithUnit<Bno055AngularRateUnit>;
+    euler?: EulerAngles & WithUnit<Bno055AngleUnit>;
+    quaternion?: Quaternion;
+    linearAcceleration?: Vector & WithUnit<Bno055AccelerationUnit>;
+    gravity?: Vector & WithUnit<Bno055AccelerationUnit>;
+    temperature: Temperature;
+    calibrationStatus: Bno055CalibrationStatus;
+}
+
+
+export interface Bno055BusStatistics {
+    transactions: number;
+    pendingTransactions: number;
+    droppedTicks: number;
+}
+
+
+export interface Bno055RecoveryPolicy {
+    maxConsecutiveErrors: number;
+    maxAttempts?: number;
+}
+
+
+export interface Bno055IteratorOptions {
+    interval?: number;
+}
+
+
+// the streams that can produce envelopes, named as in the snapshot
+export type Bno055EnvelopeStream = Exclude<keyof Bno055Snapshot, "calibrationStatus">;
+
+
+export interface Bno055EnvelopeOptions {
+    calibrationStatus?: boolean; // whether the calibration status is read with each sample
+}
+
+
+export interface Bno055Envelope<T> {
+    value: T;
+    sequence: number; // the number of samples produced before this one
+    timestamp: number; // when the data was received, in milliseconds on a monotonic clock
+    latency: number; // milliseconds from starting the read (including waiting for the bus) to receiving the data
+    missedTicks: number; // polling ticks since the previous sample that did not produce one
+    late: boolean; // whether the read started more than half an interval after it was expected
+    repeated: boolean; // whether the value is unchanged since the previous sample
+    calibrationStatus?: Bno055CalibrationStatus;
+}
+
+
+interface DataSource<T> {
+    name: string;
+    modes?: Bno055Mode[];
+    read: () => Observable<T>;
+}
+
+
 export interface Bno055Options {
-    i2c: I2cBus;
+    i2c?: Bno055I2cBus;
+    transport?: Bno055Transport;
     address?: number;
+    bootTimeout?: number;
+    ioTimeout?: number;
+    retries?: number;
+    recovery?: Bno055RecoveryPolicy;
     calibrationData?: Bno055CalibrationData;
+    calibrationProfile?: string;
+    autoSaveCalibration?: boolean;
+    minimumCalibrationLevels?: Partial<Bno055CalibrationStatus>;
+    declination?: number;
     mode: Bno055Mode;
+    orientation?: Bno055Placement | Bno055AxisRemap;
+    units?: Partial<Bno055Units>;
+    sensorConfig?: Bno055SensorConfig;
+    powerMode?: Exclude<Bno055PowerMode, "suspend">;
+    interrupts?: Bno055InterruptConfig;
     debug?: boolean;
 }
 
@@ -73,146 +412,643 @@ export class Bno055Driver {
         // polyfill 'Promise' in case we are running on Node.js before v0.12
         promisePolyfill();
 
-        const i2cObject = options.i2c;
-        const address = options.address || constants.ADDRESS_A;
+        this._options = options;
+        this._mode = options.mode;
+        this._bootTimeout = options.bootTimeout === undefined ? 10000 : options.bootTimeout;
+        this._units = {
+            acceleration: "m/s^2",
+            angularRate: "dps",
+            angle: "degrees",
+            temperature: "celsius",
+            convention: "windows",
+            ...options.units
+        };
+        this._divisors = unitsToDivisors(this._units);
+        this._interruptConfig = options.interrupts;
+        this._powerMode = options.powerMode || "normal";
+        this._calibrationStore = options.calibrationProfile ? new Bno055CalibrationStore(options.calibrationProfile) : undefined;
+
+        const transport = options.transport || (options.i2c && new I2cTransport(options.i2c, options.address || constants.ADDRESS_A));
+        if (!transport) {
+            throw new Bno055Error("Either an I2C bus or a transport must be given.");
+        }
+        this._address = transport.address;
+        this._transport = transport;
+
+        if (transport.address !== undefined) {
+            this._debug(`Address is 0x${transport.address.toString(16)}`);
+        }
+
+        // every bus transaction is given up on after the I/O timeout (applied by the queue from
+        // when the transaction is queued) and retried (if configured)
+        const ioTimeout = options.ioTimeout === undefined ? 1000 : options.ioTimeout;
+        const retries = options.retries || 0;
+        function transaction<T>(operation: "read" | "write", register: number, observable: Observable<T>): Observable<T> {
+            return observable.pipe(
+                catchError(err => throwObservable(err instanceof TimeoutError
+                    ? new Bno055BusError(operation, register, `timed out after ${ioTimeout} ms`)
+                    : err)),
+                retry(retries)
+            );
+        }
 
-        this._debug(`Address is 0x${address.toString(16)}`);
+        // all transactions go through a single queue so that they never overlap on the bus,
+        // and none are started once the transport has been released
+        const queue = this._queue;
+        const enqueue = <T>(operation: "read" | "write", register: number, start: () => Observable<T>): Observable<T> =>
+            this._released
+                ? throwObservable(new Bno055Error(closedMessage))
+                : transaction(operation, register, queue.enqueue(start, ioTimeout));
 
         this._readByte = function (register: number): Observable<number> {
-            return new Observable<number>(subscriber => {
-                i2cObject.readByte(address, register, (err, byte) => {
-                    if (err) {
-                        subscriber.error(err);
-                    } else {
-                        subscriber.next(byte);
-                        subscriber.complete();
-                    }
-                });
-            });
+            return enqueue("read", register, () => transport.readByte(register));
         };
 
         this._readBytes = function (register: number, length: number): Observable<Buffer> {
-            return new Observable<Buffer>(subscriber => {
-                const buffer = new Buffer(length);
-                i2cObject.readI2cBlock(address, register, length, buffer, (err, bytesRead) => {
-                    if (err) {
-                        subscriber.error(err);
-                    } else if (bytesRead !== length) {
-                        subscriber.error(`Incorrect number of bytes read (expected: ${length}, recieved: ${bytesRead})`);
-                    } else {
-                        subscriber.next(buffer);
-                        subscriber.complete();
-                    }
-                });
-            });
+            return enqueue("read", register, () => transport.readBytes(register, length));
         };
 
         this._writeByte = function (register: number, byte: number): Observable<never> {
-                return new Observable<never>(subscriber => {
-                    i2cObject.writeByte(address, register, byte, err => {
-                        if (err) {
-                            subscriber.error(err);
-                        } else {
-                            subscriber.complete();
-                        }
-                    });
-                });
-            };
+            return enqueue("write", register, () => transport.writeByte(register, byte));
+        };
 
-        // the initialization stream is published so it begins immediately
-        this._preCalibrationInitializationStream = publish<never>()(this._initializePreCalibration()).refCount();
-        this._initializationStream = publish<never>()(this._initialize(options.mode, options.calibrationData)).refCount();
+        // the initialization runs once, starting with the first call to init() or the first subscription
+        this._preCalibrationInitializationStream = this._runOnce(deferObservable(() => this._initializePreCalibration()));
+        this._initializationStream = this._runOnce(this._initialize(this._preCalibrationInitializationStream, options.mode, options.orientation, this._units, options.sensorConfig, options.calibrationData, options.minimumCalibrationLevels));
+
+        // the auto-save is shared by all data streams so the calibration is only saved once
+        this._autoSaveStream = options.autoSaveCalibration && this._calibrationStore
+            ? publish<never>()(this._autoSaveCalibration(this._calibrationStore)).refCount()
+            : emptyObservable();
+    }
+
+
+    // the iterators poll the matching stream until the loop exits
+    accelerometers(options: Bno055IteratorOptions = {}): AsyncIterableIterator<Vector & WithUnit<Bno055AccelerationUnit>> {
+        return toAsyncIterable(this.streamAccelerometer(options.interval));
+    }
+
+
+    close(): Observable<never> {
+        return deferObservable(() => {
+            if (this._closed) {
+                return emptyObservable();
+            }
+
+            this._debug("Closing");
+            this._closed = true;
+
+            // cancel any initialization, recovery and auto-save, and end the data streams
+            this._work.unsubscribe();
+            this._closeSignal.next(undefined);
+            this._closeSignal.complete();
+
+            // leave the module in config mode and suspended; this is allowed to fail
+            // since the module may never have booted
+            return concatObservable(
+                this._setMode("config"),
+                this._writePowerMode("suspend")
+            ).pipe(
+                catchError(err => {
+                    this._debug(`Could not suspend the module while closing: ${err.message}`);
+                    return emptyObservable();
+                }),
+                finalize(() => {
+                    this._released = true;
+                    if (this._transport.close) {
+                        this._transport.close();
+                    }
+                })
+            );
+        });
     }
 
 
-    getCalibrationData(): Observable<Bno055CalibrationData> {
+    configureInterrupts(config: Bno055InterruptConfig): Observable<never> {
+        return concatObservable(
+            this._initializationStream,
+            // the interrupt settings can only be written in config mode
+            this._withConfigMode(this._initializeInterrupts(config))
+        ).pipe(
+            tap(undefined, undefined, () => { this._interruptConfig = config; })
+        );
+    }
+
+
+    eulerAngles(options: Bno055IteratorOptions = {}): AsyncIterableIterator<EulerAngles & WithUnit<Bno055AngleUnit>> {
+        return toAsyncIterable(this.streamEuler(options.interval));
+    }
+
+
+    get mode(): Bno055Mode {
+        return this._mode;
+    }
+
+
+    get powerMode(): Bno055PowerMode {
+        return this._suspended ? "suspend" : this._powerMode;
+    }
+
+
+    getBusStatistics(): Bno055BusStatistics {
+        return {
+            transactions: this._queue.transactionCount,
+            pendingTransactions: this._queue.pendingCount,
+            droppedTicks: this._droppedTicks
+        };
+    }
+
+
+    getCalibrationData(minimumLevels?: Partial<Bno055CalibrationStatus>): Observable<Bno055CalibrationData> {
+        return concatObservable(
+            this._preCalibrationInitializationStream,
+            deferObservable(() => {
+                // the data streams are paused while the module is calibrating in another mode,
+                // and the module is then returned to the current mode
+                this._pauseCount++;
+                return concatObservable(
+                    this._awaitCalibration(minimumLevels),
+                    this._readCalibration(),
+                    this._setMode(this._mode)
+                ).pipe(
+                    finalize(() => { this._pauseCount--; })
+                );
+            })
+        );
+    }
+
+
+    getDeviceInfo(): Observable<Bno055DeviceInfo> {
         return concatObservable(
             this._preCalibrationInitializationStream,
-            this._awaitCalibration(),
-            this._readCalibration()
+            this._readDeviceInfo()
         );
     }
 
 
-    streamAccelerometer(interval: number = 100): Observable<Vector> {
+    getSystemStatus(): Observable<Bno055Health> {
+        return concatObservable(
+            this._preCalibrationInitializationStream,
+            this._readHealth()
+        );
+    }
+
+
+    gyroscopes(options: Bno055IteratorOptions = {}): AsyncIterableIterator<Vector & WithUnit<Bno055AngularRateUnit>> {
+        return toAsyncIterable(this.streamGyroscope(options.interval));
+    }
+
+
+    init(): Observable<never> {
+        return deferObservable(() => this._initializationStream);
+    }
+
+
+    quaternions(options: Bno055IteratorOptions = {}): AsyncIterableIterator<Quaternion> {
+        return toAsyncIterable(this.streamQuaternions(options.interval));
+    }
+
+
+    // the one-shot reads take the first value of the matching stream so that they share its
+    // initialization, mode checks and error recovery
+    readAccelerometer(): Promise<Vector & WithUnit<Bno055AccelerationUnit>> {
+        return this.streamAccelerometer().pipe(take(1)).toPromise();
+    }
+
+
+    readCalibrationStatus(): Promise<Bno055CalibrationStatus> {
+        return this.streamCalibrationStatus().pipe(take(1)).toPromise();
+    }
+
+
+    readEuler(): Promise<EulerAngles & WithUnit<Bno055AngleUnit>> {
+        return this.streamEuler().pipe(take(1)).toPromise();
+    }
+
+
+    readGravity(): Promise<Vector & WithUnit<Bno055AccelerationUnit>> {
+        return this.streamGravity().pipe(take(1)).toPromise();
+    }
+
+
+    readGyroscope(): Promise<Vector & WithUnit<Bno055AngularRateUnit>> {
+        return this.streamGyroscope().pipe(take(1)).toPromise();
+    }
+
+
+    readLinearAcceleration(): Promise<Vector & WithUnit<Bno055AccelerationUnit>> {
+        return this.streamLinearAcceleration().pipe(take(1)).toPromise();
+    }
+
+
+    readMagnometer(rawData: boolean = false): Promise<Vector & WithUnit<Bno055MagneticFieldUnit>> {
+        return this.streamMagnometer(undefined, rawData).pipe(take(1)).toPromise();
+    }
+
+
+    readQuaternion(): Promise<Quaternion> {
+        return this.streamQuaternions().pipe(take(1)).toPromise();
+    }
+
+
+    readTemperature(): Promise<Temperature> {
+        return this.streamTemperature().pipe(take(1)).toPromise();
+    }
+
+
+    reinitialize(): Observable<never> {
+        return deferObservable(() => this._closed
+            ? throwObservable(new Bno055Error(closedMessage))
+            : this._reinitialize());
+    }
+
+
+    resume(): Observable<never> {
         return concatObservable(
             this._initializationStream,
-            this._createIntervalStream(interval)
-                .pipe(
-                    mergeMap(() => this._readVector(constants.ACCEL_DATA_START, constants.ACCEL_DATA_LSB_TO_METERS_PER_SECOND_SQUARED_DIVISOR, "acceleration"))
-                )
+            deferObservable(() => {
+                if (!this._suspended) {
+                    return emptyObservable();
+                }
+
+                // the module is still in config mode from being suspended
+                return concatObservable(
+                    this._writePowerMode(this._powerMode),
+                    this._setMode(this._mode)
+                ).pipe(
+                    tap(undefined, undefined, () => {
+                        this._debug(`Resumed in ${this._mode} mode`);
+                        this._suspended = false;
+                        this._pauseCount--;
+                    })
+                );
+            })
         );
     }
 
 
-    streamGyroscope(interval: number = 100): Observable<Vector> {
+    setMode(mode: Bno055Mode): Observable<never> {
         return concatObservable(
             this._initializationStream,
-            this._createIntervalStream(interval)
-                .pipe(
-                    mergeMap(() => this._readVector(constants.GYRO_DATA_START, constants.GYRO_DATA_LSB_TO_DPS_DIVISOR, "gyroscope"))
-                )
+            deferObservable(() => {
+                if (this._suspended) {
+                    // the module is switched to the new mode when it is resumed
+                    this._debug(`Mode will be ${mode} when resumed`);
+                    return emptyObservable();
+                }
+
+                // pause the data streams until the module is in the new mode
+                this._debug(`Switching mode from ${this._mode} to ${mode}`);
+                this._pauseCount++;
+                return concatObservable(
+                    this._setMode("config"),
+                    this._setMode(mode)
+                ).pipe(
+                    finalize(() => { this._pauseCount--; })
+                );
+            })
+        ).pipe(
+            tap(undefined, undefined, () => { this._mode = mode; })
         );
     }
 
 
-    streamMagnometer(interval: number = 100, rawData: boolean = false): Observable<Vector> {
+    setPowerMode(powerMode: Bno055PowerMode): Observable<never> {
+        if (powerMode === "suspend") {
+            return this.suspend();
+        }
+
         return concatObservable(
             this._initializationStream,
-            this._createIntervalStream(interval)
+            deferObservable(() => {
+                if (this._suspended) {
+                    // the power mode is selected when the module is resumed
+                    this._powerMode = powerMode;
+                    return emptyObservable();
+                }
+
+                // the power mode can only be changed in config mode
+                return this._withConfigMode(this._writePowerMode(powerMode))
+                    .pipe(
+                        tap(undefined, undefined, () => { this._powerMode = powerMode; })
+                    );
+            })
+        );
+    }
+
+
+    streamAccelerometer(interval: number = 100): Observable<Vector & WithUnit<Bno055AccelerationUnit>> {
+        return this._createSourceStream(interval, "accelerometer");
+    }
+
+
+    streamAll(interval: number = 100): Observable<Bno055Snapshot> {
+        return this._createDataStream(interval, "snapshot", undefined, () => this._readSnapshot());
+    }
+
+
+    streamCalibrationStatus(interval: number = 100): Observable<Bno055CalibrationStatus> {
+        // only the pre-calibration initialization is awaited so that progress
+        // can be shown while the driver is waiting for calibration
+        return concatObservable(
+            this._preCalibrationInitializationStream,
+            this._createPollingStream(interval, () => this._readCalibrationStatus())
+        );
+    }
+
+
+    streamEnvelopes<K extends Bno055EnvelopeStream>(
+        stream: K,
+        interval: number = 100,
+        options: Bno055EnvelopeOptions = {}
+    ): Observable<Bno055Envelope<Required<Bno055Snapshot>[K]>> {
+        const source = this._dataSource(stream);
+        const readCalibrationStatus: Observable<Bno055CalibrationStatus | undefined> = options.calibrationStatus
+            ? this._readCalibrationStatus()
+            : ofObservable(undefined);
+        return deferObservable(() => {
+            // the previous sample is used to find missed and late ticks and repeated values
+            let previous: { tick: number, start: number, value: string } | undefined;
+            let sequence = 0;
+            return this._createDataStream(interval, source.name, source.modes, tick => deferObservable(() => {
+                const start = monotonicTime();
+                return source.read().pipe(
+                    map(value => ({ value, timestamp: monotonicTime() })),
+                    mergeMap(sample => readCalibrationStatus.pipe(
+                        map(calibrationStatus => {
+                            const value = JSON.stringify(sample.value);
+                            const missedTicks = previous ? tick - previous.tick - 1 : tick;
+                            const late = previous !== undefined && start - previous.start > (tick - previous.tick + 0.5) * interval;
+                            if (missedTicks > 0 || late) {
+                                this._debug(`The ${source.name} sample ${sequence} was ${late ? "late" : "on time"} after ${missedTicks} missed ticks`);
+                            }
+
+                            const envelope: Bno055Envelope<Required<Bno055Snapshot>[K]> = {
+                                value: sample.value,
+                                sequence: sequence++,
+                                timestamp: sample.timestamp,
+                                latency: sample.timestamp - start,
+                                missedTicks,
+                                late,
+                                // a repeated value means the module's output rate is lower than the polling rate
+                                repeated: previous !== undefined && previous.value === value
+                            };
+                            if (calibrationStatus) {
+                                envelope.calibrationStatus = calibrationStatus;
+                            }
+                            previous = { tick, start, value };
+                            return envelope;
+                        })
+                    ))
+                );
+            }));
+        });
+    }
+
+
+    streamEuler(interval: number = 100): Observable<EulerAngles & WithUnit<Bno055AngleUnit>> {
+        return this._createSourceStream(interval, "euler");
+    }
+
+
+    streamGravity(interval: number = 100): Observable<Vector & WithUnit<Bno055AccelerationUnit>> {
+        return this._createSourceStream(interval, "gravity");
+    }
+
+
+    streamGyroscope(interval: number = 100): Observable<Vector & WithUnit<Bno055AngularRateUnit>> {
+        return this._createSourceStream(interval, "gyroscope");
+    }
+
+
+    streamHeadings(interval: number = 100, forwardVector: Vector = { x: 1, y: 0, z: 0 }): Observable<number> {
+        // a positive (east) declination is added to the magnetic heading to give the true heading
+        const declination = this._options.declination || 0;
+        return this._createDataStream(interval, "heading", headingModes, () =>
+            // the mode is checked on every read since it can be changed while streaming
+            (fusionModes.indexOf(this._mode) !== -1
+                ? this._readQuaternion(constants.QUATERNION_DATA_START)
+                    .pipe(map(quaternion => quaternionToHeading(quaternion, forwardVector)))
+                // the accelerometer and magnetometer data registers are contiguous, so both are read at once
+                : this._readBytes(constants.ACCEL_DATA_START, constants.MAG_DATA_START - constants.ACCEL_DATA_START + 6)
+                    .pipe(map(buffer => tiltCompensatedHeading(
+                        Bno055Driver._bufferToVector(buffer, 1),
+                        Bno055Driver._bufferToVector(buffer.slice(constants.MAG_DATA_START - constants.ACCEL_DATA_START), 1),
+                        forwardVector
+                    )))
+            ).pipe(
+                map(heading => normalizeHeading(heading + declination))
+            )
+        );
+    }
+
+
+    streamHealth(interval: number = 1000): Observable<Bno055Health> {
+        // only the pre-calibration initialization is awaited so that the
+        // health can be monitored while waiting for calibration
+        return concatObservable(
+            this._preCalibrationInitializationStream,
+            this._createPollingStream(interval, () => this._readHealth())
+        );
+    }
+
+
+    streamInterrupts(source: number | Observable<{}> = 100): Observable<Bno055InterruptType> {
+        if (typeof source === "number") {
+            return this._createDataStream(source, "interrupt", undefined, () => this._readInterrupts());
+        }
+
+        // the status is read on each edge of the INT pin instead of being polled, and once at the
+        // start since the pin stays set while an interrupt from before the subscription is latched
+        return concatObservable(
+            this._initializationStream,
+            mergeObservable(ofObservable(undefined), source)
                 .pipe(
-                    mergeMap(() => this._readVector(constants.MAG_DATA_START, constants.MAG_DATA_LSB_TO_MICRO_TESLA_DIVISOR, "magnometer"))
+                    takeUntil(this._closeSignal),
+                    exhaustMap(() => this._readInterrupts().pipe(catchError(err => this._recoverFromError(err))))
                 )
         );
     }
 
 
+    streamLinearAcceleration(interval: number = 100): Observable<Vector & WithUnit<Bno055AccelerationUnit>> {
+        return this._createSourceStream(interval, "linearAcceleration");
+    }
+
+
+    streamMagnometer(interval: number = 100, rawData: boolean = false): Observable<Vector & WithUnit<Bno055MagneticFieldUnit>> {
+        return this._createSourceStream(interval, "magnetometer");
+    }
+
+
     streamQuaternions(interval: number = 100): Observable<Quaternion> {
+        return this._createSourceStream(interval, "quaternion");
+    }
+
+
+    streamTemperature(interval: number = 1000): Observable<Temperature> {
+        return this._createSourceStream(interval, "temperature");
+    }
+
+
+    suspend(): Observable<never> {
         return concatObservable(
             this._initializationStream,
-            this._createIntervalStream(interval)
-                .pipe(
-                    mergeMap(() => this._readQuaternion(constants.QUATERNION_DATA_START))
-                )
+            deferObservable(() => {
+                if (this._suspended) {
+                    return emptyObservable();
+                }
+
+                // the data streams are paused until the module is resumed since
+                // the data registers are not updated while it is suspended
+                this._suspended = true;
+                this._pauseCount++;
+                let completed = false;
+                return concatObservable(
+                    this._setMode("config"),
+                    this._writePowerMode("suspend")
+                ).pipe(
+                    tap(undefined, undefined, () => { completed = true; }),
+                    finalize(() => {
+                        if (!completed) {
+                            // the suspend failed or was unsubscribed from, possibly leaving the module
+                            // in config mode, so it is returned to its mode before the streams continue
+                            this._work.add(concatObservable(
+                                this._writePowerMode(this._powerMode),
+                                this._setMode(this._mode)
+                            ).pipe(
+                                catchError(err => {
+                                    this._debug(`Could not return to ${this._mode} mode after suspending failed: ${err.message}`);
+                                    return emptyObservable();
+                                }),
+                                finalize(() => {
+                                    this._suspended = false;
+                                    this._pauseCount--;
+                                })
+                            ).subscribe());
+                        }
+                    })
+                );
+            })
         );
     }
 
 
-    private _awaitCalibrationPart(bitsToCheck: number, name: string): Observable<never> {
+    private _autoSaveCalibration(store: Bno055CalibrationStore): Observable<never> {
+        // save the calibration each time all of the sensors become fully calibrated
+        return this._createPollingStream(1000, () => this._readCalibrationStatus())
+            .pipe(
+                map(status => status.system === 3 && status.accelerometer === 3 && status.gyroscope === 3 && status.magnetometer === 3),
+                distinctUntilChanged(),
+                filter(calibrated => calibrated),
+                exhaustMap(() => this._saveCalibration(store))
+            );
+    }
+
+
+    private _awaitCalibrationPart(part: keyof Bno055CalibrationStatus, minimumLevel: number = 3): Observable<never> {
         return timerObservable(0, 100) // try every 100 ms
             .pipe(
-                mergeMap(_ => this._readByte(constants.CALIB_STAT)), // read the calibration byte
-                takeWhile(byte => (byte & bitsToCheck) !== bitsToCheck), // finish when the bits to check are set
-                tap(undefined, undefined, () => this._debug(`Calibration complete: ${name}`)),
+                mergeMap(_ => this._readCalibrationStatus()), // read the calibration status
+                takeWhile(status => status[part] < minimumLevel), // finish when the minimum level is reached
+                tap(undefined, undefined, () => this._debug(`Calibration complete: ${part}`)),
                 ignoreElements()
             );
     }
 
 
-    private _awaitCalibration(): Observable<never> {
+    private _awaitCalibration(minimumLevels: Partial<Bno055CalibrationStatus> = {}): Observable<never> {
+        // the module can only switch between operating modes through config mode, so it is
+        // left in config mode for the caller to select the mode to use next
         return concatObservable(
+            this._setMode("config"),
             this._setMode("ndof_fmc_off"),
             mergeObservable(
-                this._awaitCalibrationPart(0x03, "magnetometer"),
-                this._awaitCalibrationPart(0x0C, "accelerometer"),
-                this._awaitCalibrationPart(0x30, "gyroscope"),
-                this._awaitCalibrationPart(0xC0, "system")
-            )
+                this._awaitCalibrationPart("magnetometer", minimumLevels.magnetometer),
+                this._awaitCalibrationPart("accelerometer", minimumLevels.accelerometer),
+                this._awaitCalibrationPart("gyroscope", minimumLevels.gyroscope),
+                this._awaitCalibrationPart("system", minimumLevels.system)
+            ),
+            this._setMode("config")
         );
     }
 
 
+    private _bufferToSnapshot(buffer: Buffer): Bno055Snapshot {
+        // the buffer starts at the accelerometer data, so each register is offset by that address
+        const dataAt = (register: number, length: number) =>
+            buffer.slice(register - constants.ACCEL_DATA_START, register - constants.ACCEL_DATA_START + length);
+        const snapshot: Bno055Snapshot = {
+            temperature: {
+                value: fromInt8(buffer[constants.TEMP - constants.ACCEL_DATA_START]) / this._divisors.temperature,
+                unit: this._units.temperature
+            },
+            calibrationStatus: Bno055Driver._byteToCalibrationStatus(buffer[constants.CALIB_STAT - constants.ACCEL_DATA_START])
+        };
+
+        // only include the data that is valid in the current mode
+        if (accelerometerModes.indexOf(this._mode) !== -1) {
+            snapshot.accelerometer = {
+                ...Bno055Driver._bufferToVector(dataAt(constants.ACCEL_DATA_START, 6), this._divisors.acceleration),
+                unit: this._units.acceleration
+            };
+        }
+        if (magnetometerModes.indexOf(this._mode) !== -1) {
+            snapshot.magnetometer = {
+                ...Bno055Driver._bufferToVector(dataAt(constants.MAG_DATA_START, 6), constants.MAG_DATA_LSB_TO_MICRO_TESLA_DIVISOR),
+                unit: "uT"
+            };
+        }
+        if (gyroscopeModes.indexOf(this._mode) !== -1) {
+            snapshot.gyroscope = {
+                ...Bno055Driver._bufferToVector(dataAt(constants.GYRO_DATA_START, 6), this._divisors.angularRate),
+                unit: this._units.angularRate
+            };
+        }
+        if (fusionModes.indexOf(this._mode) !== -1) {
+            snapshot.euler = {
+                ...Bno055Driver._bufferToEuler(dataAt(constants.EULER_START, 6), this._divisors.euler),
+                unit: this._units.angle
+            };
+            snapshot.quaternion = Bno055Driver._bufferToQuaternion(dataAt(constants.QUATERNION_DATA_START, 8));
+            snapshot.linearAcceleration = {
+                ...Bno055Driver._bufferToVector(dataAt(constants.LINEAR_ACCEL_DATA_START, 6), this._divisors.linearAcceleration),
+                unit: this._units.acceleration
+            };
+            snapshot.gravity = {
+                ...Bno055Driver._bufferToVector(dataAt(constants.GRAVITY_DATA_START, 6), this._divisors.gravity),
+                unit: this._units.acceleration
+            };
+        }
+
+        return snapshot;
+    }
+
+
     private _confirmBoot(): Observable<never> {
+        let lastIdByte: number | undefined;
         return timerObservable(0, 100) // try every 100 ms
             .pipe(
                 tap(() => this._debug("Reading ID byte to confirm boot")),
-                mergeMap(_ => this._readByte(constants.CHIP_ID)), // read the ID byte
-                tap(idByte => this._debug(`Read ID byte of 0x${idByte.toString(16)}`)),
+                mergeMap(_ => this._readByte(constants.CHIP_ID) // read the ID byte
+                    .pipe(
+                        // the module may not respond on the bus while it is booting
+                        catchError(err => {
+                            this._debug(`Could not read ID byte: ${err.message || err}`);
+                            return emptyObservable();
+                        })
+                    )),
+                tap(idByte => {
+                    lastIdByte = idByte;
+                    this._debug(`Read ID byte of 0x${idByte.toString(16)}`);
+                }),
                 takeWhile(byte => byte !== constants.BNO055_ID), // finish when correct ID is read
                 ignoreElements(), // don't output non-ID values
-                tap(undefined, undefined, () => this._debug("Boot confirmation done."))
-                // timeout(10000) // give up after 1000 ms
-                // catchError(_ => throwObservable("Could not confirm the Bno055 module ID."))
+                tap(undefined, undefined, () => this._debug("Boot confirmation done.")),
+                timeout(this._bootTimeout), // give up after the boot timeout
+                catchError(err => throwObservable(!(err instanceof TimeoutError) ? err
+                    : lastIdByte !== undefined ? new Bno055ChipIdError(constants.BNO055_ID, lastIdByte)
+                    : new Bno055BootTimeoutError(this._bootTimeout)))
             );
     }
 
@@ -221,51 +1057,273 @@ export class Bno055Driver {
         return this._readByte(constants.SELFTEST_RESULT)
             .pipe(
                 tap(selfTestResult => this._debug(`Self test result is 0x${selfTestResult.toString(16)}`)),
-                mergeMap(byte => (byte & 0xF) === 0xF ? emptyObservable() : throwObservable(`Self test failed, got 0x${byte.toString(16)}.`))
+                mergeMap(byte => (byte & 0xF) === 0xF
+                    ? emptyObservable()
+                    : throwObservable(new Bno055SelfTestError(Bno055Driver._byteToSelfTestResult(byte), byte)))
             );
     }
 
 
-    private _createIntervalStream(interval: number): Observable<number> {
-        return timerObservable(0, interval);
+    private _createDataStream<T>(
+        interval: number,
+        dataName: string,
+        validModes: Bno055Mode[] | undefined,
+        read: (tick: number) => Observable<T>
+    ): Observable<T> {
+        return concatObservable(
+            this._requireMode(dataName, validModes),
+            this._initializationStream,
+            mergeObservable(
+                this._createPollingStream(interval, tick =>
+                    // the mode is checked on every read since it can be changed while streaming
+                    concatObservable(this._requireMode(dataName, validModes), read(tick))
+                        .pipe(
+                            tap(() => {
+                                this._consecutiveErrors = 0;
+                                this._recoveryAttempts = 0;
+                            }),
+                            catchError(err => this._recoverFromError(err))
+                        )
+                ),
+                this._autoSaveStream
+            )
+        );
+    }
+
+
+    private _createPollingStream<T>(interval: number, read: (tick: number) => Observable<T>): Observable<T> {
+        // the read is given the index of the timer tick, counting those that were skipped
+        return deferObservable(() => {
+            let reading = false;
+            return timerObservable(0, interval)
+                .pipe(
+                    takeUntil(this._closeSignal),
+                    filter(() => this._pauseCount === 0), // skip reads while the mode is being switched or the module is recovering
+                    filter(() => {
+                        // skip (rather than stack) ticks that arrive while the previous read is in progress
+                        if (reading) {
+                            this._droppedTicks++;
+                            this._debug(`Dropped tick since a read took longer than ${interval} ms (${this._droppedTicks} dropped in total)`);
+                        }
+                        return !reading;
+                    }),
+                    exhaustMap(tick => {
+                        reading = true;
+                        return read(tick).pipe(finalize(() => { reading = false; }));
+                    })
+                );
+        });
+    }
+
+
+    private _createSourceStream<K extends Bno055EnvelopeStream>(interval: number, stream: K): Observable<Required<Bno055Snapshot>[K]> {
+        const source = this._dataSource(stream);
+        return this._createDataStream(interval, source.name, source.modes, source.read);
+    }
+
+
+    private _dataSource<K extends Bno055EnvelopeStream>(stream: K): DataSource<Required<Bno055Snapshot>[K]> {
+        const sources: { [S in Bno055EnvelopeStream]: DataSource<Required<Bno055Snapshot>[S]> } = {
+            accelerometer: {
+                name: "accelerometer",
+                modes: accelerometerModes,
+                read: () => this._readVector(constants.ACCEL_DATA_START, this._divisors.acceleration, "acceleration")
+                    .pipe(map(withUnit(this._units.acceleration)))
+            },
+            euler: {
+                name: "Euler angle",
+                modes: fusionModes,
+                read: () => this._readEuler(constants.EULER_START, this._divisors.euler)
+                    .pipe(map(withUnit(this._units.angle)))
+            },
+            gravity: {
+                name: "gravity",
+                modes: fusionModes,
+                read: () => this._readVector(constants.GRAVITY_DATA_START, this._divisors.gravity, "gravity")
+                    .pipe(map(withUnit(this._units.acceleration)))
+            },
+            gyroscope: {
+                name: "gyroscope",
+                modes: gyroscopeModes,
+                read: () => this._readVector(constants.GYRO_DATA_START, this._divisors.angularRate, "gyroscope")
+                    .pipe(map(withUnit(this._units.angularRate)))
+            },
+            linearAcceleration: {
+                name: "linear acceleration",
+                modes: fusionModes,
+                read: () => this._readVector(constants.LINEAR_ACCEL_DATA_START, this._divisors.linearAcceleration, "linear acceleration")
+                    .pipe(map(withUnit(this._units.acceleration)))
+            },
+            magnetometer: {
+                name: "magnetometer",
+                modes: magnetometerModes,
+                read: () => this._readVector(constants.MAG_DATA_START, constants.MAG_DATA_LSB_TO_MICRO_TESLA_DIVISOR, "magnometer")
+                    .pipe(map(withUnit<Vector, Bno055MagneticFieldUnit>("uT")))
+            },
+            quaternion: {
+                name: "quaternion",
+                modes: fusionModes,
+                read: () => this._readQuaternion(constants.QUATERNION_DATA_START)
+            },
+            temperature: {
+                name: "temperature",
+                read: () => this._readTemperature(this._divisors.temperature)
+            }
+        };
+        return sources[stream];
+    }
+
+
+    private _delay(delayInMs: number): Observable<never> {
+        return timerObservable(delayInMs).pipe(ignoreElements());
+    }
+
+
+    private _ensurePage(page: 0 | 1): Observable<never> {
+        return this._readByte(constants.PAGE_ID)
+            .pipe(
+                tap(pageId => this._debug(`Page ID is 0x${pageId.toString(16)}`)),
+                mergeMap(byte => byte === page ? emptyObservable() : this._writeByte(constants.PAGE_ID, page))
+            );
+    }
+
+
+    private _initialize(
+        preCalibrationInitialization: Observable<never>,
+        mode: Bno055Mode,
+        orientation: Bno055Placement | Bno055AxisRemap | undefined,
+        units: Bno055Units,
+        sensorConfig: Bno055SensorConfig | undefined,
+        calibrationData?: Bno055CalibrationData,
+        minimumCalibrationLevels?: Partial<Bno055CalibrationStatus>
+    ): Observable<never> {
+        return concatObservable(
+            // wait for pre-calibration initialization
+            preCalibrationInitialization,
+
+            // initialize orientation (if given)
+            this._initializeOrientation(orientation),
+
+            // select the units for the output data
+            this._initializeUnits(units),
+
+            // configure the sensor ranges, bandwidths and data rates (if given)
+            this._initializeSensorConfig(sensorConfig, mode),
+
+            // configure the interrupts (if given), using the latest configuration when re-initializing
+            deferObservable(() => this._initializeInterrupts(this._interruptConfig)),
+
+            // select the power mode, using the latest power mode when re-initializing
+            deferObservable(() => this._writePowerMode(this._powerMode)),
+
+            // initialize calibration from user or wait for calibration
+            this._setOrAwaitCalibrationData(calibrationData, minimumCalibrationLevels),
+
+            // set in sensor mode given by user
+            this._setMode(mode)
+        ).pipe(
+            tap(undefined, undefined, () => { this._debug("Initialization complete"); })
+        );
+    }
+
+
+    private _initializeInterrupts(config?: Bno055InterruptConfig): Observable<never> {
+        if (!config) {
+            return emptyObservable();
+        }
+
+        const registers = Bno055Driver._interruptConfigToRegisters(config);
+        if (!registers) {
+            return throwObservable(new Bno055Error(`Invalid interrupt configuration ${JSON.stringify(config)}.`));
+        }
+
+        return this._withPage(1, concatObservable(
+            ...registers.map(([register, value]) => this._writeByte(register, value))
+        )).pipe(
+            tap(undefined, undefined, () => this._debug(`Set interrupt configuration to ${JSON.stringify(config)}`))
+        );
     }
 
 
-    private _delay(delayInMs: number): Observable<never> {
-        return timerObservable(1000).pipe(ignoreElements());
-    }
+    private _initializeOrientation(orientation?: Bno055Placement | Bno055AxisRemap): Observable<never> {
+        if (!orientation) {
+            return emptyObservable();
+        }
 
+        const registers = typeof orientation === "string"
+            ? Bno055Driver._placementToRegisters(orientation)
+            : Bno055Driver._axisRemapToRegisters(orientation);
 
-    private _ensurePage(page: 0 | 1): Observable<never> {
-        return this._readByte(constants.PAGE_ID)
-            .pipe(
-                tap(pageId => this._debug(`Page ID is 0x${pageId.toString(16)}`)),
-                mergeMap(byte => byte === page ? emptyObservable() : this._writeByte(constants.PAGE_ID, page))
-            );
+        if (!registers) {
+            return throwObservable(new Bno055Error(`Invalid axis remap ${JSON.stringify(orientation)}; each axis must be used exactly once.`));
+        }
+
+        // the module is still in configuration mode after the reset, so the
+        // axis remap registers can be written directly
+        return concatObservable(
+            this._writeByte(constants.AXIS_MAP_CONFIG, registers.config),
+            this._writeByte(constants.AXIS_MAP_SIGN, registers.sign),
+            this._readBytes(constants.AXIS_MAP_CONFIG, 2)
+                .pipe(
+                    mergeMap(buffer => buffer[0] === registers.config && buffer[1] === registers.sign
+                        ? emptyObservable()
+                        : throwObservable(new Bno055Error(`Axis remap was not applied (expected: 0x${registers.config.toString(16)} 0x${registers.sign.toString(16)}, ` +
+                            `read: 0x${buffer[0].toString(16)} 0x${buffer[1].toString(16)})`)))
+                )
+        ).pipe(
+            tap(undefined, undefined, () => this._debug(`Set orientation to ${JSON.stringify(orientation)}`))
+        );
     }
 
 
-    private _initialize(
-        mode: Bno055Mode,
-        calibrationData?: Bno055CalibrationData
-    ): Observable<never> {
-        return concatObservable(
-            // wait for pre-calibration initialization
-            this._preCalibrationInitializationStream,
+    private _initializeSensorConfig(sensorConfig: Bno055SensorConfig | undefined, mode: Bno055Mode): Observable<never> {
+        if (!sensorConfig) {
+            return emptyObservable();
+        }
 
-            // TODO: initialize orientation (if given)
+        const registers = Bno055Driver._sensorConfigToRegisters(sensorConfig);
+        if (!registers) {
+            return throwObservable(new Bno055Error(`Invalid sensor configuration ${JSON.stringify(sensorConfig)}.`));
+        }
 
-            // initialize calibration from user or wait for calibration
-            this._setOrAwaitCalibrationData(calibrationData),
+        if (fusionModes.indexOf(mode) !== -1) {
+            this._debug(`The sensor configuration is overridden by the fusion algorithm in ${mode} mode`);
+        }
 
-            // set in sensor mode given by user
-            this._setMode(mode)
-        ).pipe(
-            tap(undefined, undefined, () => { this._debug("Initialization complete"); })
+        // the module is still in configuration mode, so the page 1 registers can be written directly
+        return this._withPage(1, concatObservable(
+            this._writeByte(constants.ACC_CONFIG, registers.accelerometer),
+            this._writeByte(constants.MAG_CONFIG, registers.magnetometer),
+            this._writeByte(constants.GYR_CONFIG_0, registers.gyroscope),
+            this._readBytes(constants.ACC_CONFIG, 3)
+                .pipe(
+                    mergeMap(buffer => buffer[0] === registers.accelerometer && buffer[1] === registers.magnetometer && buffer[2] === registers.gyroscope
+                        ? emptyObservable()
+                        : throwObservable(new Bno055Error(`Sensor configuration was not applied (expected: 0x${registers.accelerometer.toString(16)} ` +
+                            `0x${registers.magnetometer.toString(16)} 0x${registers.gyroscope.toString(16)}, ` +
+                            `read: 0x${buffer[0].toString(16)} 0x${buffer[1].toString(16)} 0x${buffer[2].toString(16)})`)))
+                )
+        )).pipe(
+            tap(undefined, undefined, () => this._debug(`Set sensor configuration to ${JSON.stringify(sensorConfig)}`))
         );
     }
 
 
+    private _initializeUnits(units: Bno055Units): Observable<never> {
+        const unitSelection = (units.acceleration === "mg" ? constants.UNIT_SEL_ACCEL_MILLI_G : 0)
+            | (units.angularRate === "rps" ? constants.UNIT_SEL_GYRO_RPS : 0)
+            | (units.angle === "radians" ? constants.UNIT_SEL_EULER_RADIANS : 0)
+            | (units.temperature === "fahrenheit" ? constants.UNIT_SEL_TEMP_FAHRENHEIT : 0)
+            | (units.convention === "android" ? constants.UNIT_SEL_ORIENTATION_ANDROID : 0);
+
+        // the module is still in configuration mode, so the unit selection register can be written directly
+        return this._writeByte(constants.UNIT_SEL, unitSelection)
+            .pipe(
+                tap(undefined, undefined, () => this._debug(`Set units to ${JSON.stringify(units)} with byte 0x${unitSelection.toString(16)}`))
+            );
+    }
+
+
     private _initializePreCalibration(): Observable<never> {
         this._debug("Starting initialization");
         return concatObservable(
@@ -285,13 +1343,79 @@ export class Bno055Driver {
             this._reset(),
 
             // wait for the Bno055 module to finish resetting
-            this._confirmBoot()
+            this._confirmBoot(),
+
+            // log the chip, sensor and firmware revisions
+            this._readDeviceInfo().pipe(ignoreElements())
         ).pipe(
             tap(undefined, undefined, () => { this._debug("Pre-calibration initialization complete"); })
         );
     }
 
 
+    private _recoverFromError(err: Error): Observable<never> {
+        const policy = this._options.recovery;
+        if (!policy || !(err instanceof Bno055BusError || err instanceof Bno055ShortReadError)) {
+            return throwObservable(err);
+        }
+
+        this._consecutiveErrors++;
+        this._debug(`Bus error ${this._consecutiveErrors} of ${policy.maxConsecutiveErrors}: ${err.message}`);
+        if (this._consecutiveErrors < policy.maxConsecutiveErrors) {
+            // skip this reading
+            return emptyObservable();
+        }
+
+        if (!this._reinitializationStream) {
+            if (policy.maxAttempts !== undefined && this._recoveryAttempts >= policy.maxAttempts) {
+                return throwObservable(err);
+            }
+
+            this._recoveryAttempts++;
+            this._debug(`Starting recovery attempt ${this._recoveryAttempts}`);
+        }
+
+        // all streams that fail share the same re-initialization
+        return this._reinitialize();
+    }
+
+
+    private _reinitialize(): Observable<never> {
+        if (!this._reinitializationStream) {
+            // reads are paused until the module has been initialized again, and streams
+            // that are started in the meantime wait for the new initialization
+            this._pauseCount++;
+            if (this._suspended) {
+                // the reset brings the module out of suspend mode
+                this._suspended = false;
+                this._pauseCount--;
+            }
+
+            this._preCalibrationInitializationStream = this._runOnce(deferObservable(() => this._initializePreCalibration()));
+            this._initializationStream = this._runOnce(
+                this._initialize(
+                    this._preCalibrationInitializationStream,
+                    this._mode,
+                    this._options.orientation,
+                    this._units,
+                    this._options.sensorConfig,
+                    this._options.calibrationData,
+                    this._options.minimumCalibrationLevels
+                ).pipe(
+                    finalize(() => {
+                        this._pauseCount--;
+                        this._consecutiveErrors = 0;
+                        this._reinitializationStream = undefined;
+                    })
+                )
+            );
+            this._reinitializationStream = this._initializationStream;
+        }
+
+        return this._reinitializationStream;
+    }
+
+
     private _reset(): Observable<never> {
         return concatObservable(
             this._writeByte(constants.SYS_TRIGGER, constants.SYSTEM_TRIGGER_RESET),
@@ -304,12 +1428,18 @@ export class Bno055Driver {
 
 
     private _readCalibration(): Observable<Bno055CalibrationData> {
+        // the offset and radius registers can only be read in config mode
+        return this._withConfigMode(this._readCalibrationRegisters());
+    }
+
+
+    private _readCalibrationRegisters(): Observable<Bno055CalibrationData> {
         return zipObservable(
             this._readVector(constants.ACCEL_OFFSET_START, 1, "accelerometer offset"),
             this._readNumber(constants.ACCEL_RADIUS_LSB, "accelerometer radius"),
             this._readVector(constants.GYRO_OFFSET_START, 1, "gyroscope offset"),
             this._readVector(constants.MAG_OFFSET_START, 1, "magnometer offset"),
-            this._readNumber(constants.MAG_RADIUS_LSB, "acceleration radius")
+            this._readNumber(constants.MAG_RADIUS_LSB, "magnometer radius")
         ).pipe(
             take(1),
             map(([accelerometerOffset, accelerometerRadius, gyroscopeOffset, magnetometerOffset, magnetometerRadius]) =>
@@ -318,6 +1448,93 @@ export class Bno055Driver {
     }
 
 
+    private _readCalibrationStatus(): Observable<Bno055CalibrationStatus> {
+        return this._readByte(constants.CALIB_STAT)
+            .pipe(
+                map(Bno055Driver._byteToCalibrationStatus),
+                tap(x => {
+                    if (this._debug.enabled) {
+                        this._debug(`Read calibration status: ${JSON.stringify(x)}`);
+                    }
+                })
+            );
+    }
+
+
+    private _readDeviceInfo(): Observable<Bno055DeviceInfo> {
+        // the ID and revision registers are contiguous, starting with the chip ID
+        return this._readBytes(constants.CHIP_ID, constants.BL_REV_ID - constants.CHIP_ID + 1)
+            .pipe(
+                map(buffer => ({
+                    address: this._address,
+                    chipId: buffer[constants.CHIP_ID],
+                    accelerometerRevision: buffer[constants.ACCEL_REV_ID],
+                    magnetometerRevision: buffer[constants.MAG_REV_ID],
+                    gyroscopeRevision: buffer[constants.GYRO_REV_ID],
+                    softwareRevision: (buffer[constants.SW_REV_ID_MSB] << 8) | buffer[constants.SW_REV_ID_LSB],
+                    bootloaderRevision: buffer[constants.BL_REV_ID]
+                })),
+                tap(x => {
+                    if (this._debug.enabled) {
+                        this._debug(`Read device info: ${JSON.stringify(x)}`);
+                    }
+                })
+            );
+    }
+
+
+    private _readEuler(startAddress: number, divisor: number): Observable<EulerAngles> {
+        return this._readBytes(startAddress, 6)
+            .pipe(
+                map(buffer => Bno055Driver._bufferToEuler(buffer, divisor)),
+                tap(x => {
+                    if (this._debug.enabled) {
+                        this._debug(`Read Euler angles: ${JSON.stringify(x)}`);
+                    }
+                })
+            );
+    }
+
+
+    private _readHealth(): Observable<Bno055Health> {
+        // the self test, interrupt, clock, status and error registers are contiguous
+        return this._readBytes(constants.SELFTEST_RESULT, constants.SYS_ERR - constants.SELFTEST_RESULT + 1)
+            .pipe(
+                map(Bno055Driver._bufferToHealth),
+                tap(x => {
+                    if (this._debug.enabled) {
+                        this._debug(`Read health: ${JSON.stringify(x)}`);
+                    }
+                })
+            );
+    }
+
+
+    private _readInterrupts(): Observable<Bno055InterruptType> {
+        return this._readByte(constants.INTR_STAT)
+            .pipe(
+                mergeMap(byte => {
+                    if (byte === 0) {
+                        return emptyObservable();
+                    }
+
+                    // no motion and slow motion share a bit, so it is reported as the configured one
+                    const slowMotion = !!this._interruptConfig && !!this._interruptConfig.accelerometerSlowMotion;
+                    const interrupts = (Object.keys(interruptBits) as Bno055InterruptType[])
+                        .filter(interrupt => interrupt !== (slowMotion ? "accelerometerNoMotion" : "accelerometerSlowMotion"))
+                        .filter(interrupt => (byte & interruptBits[interrupt]) !== 0);
+                    this._debug(`Read interrupts: ${interrupts.join(", ")}`);
+
+                    // clear the latched interrupts (and the INT pin) before reporting them
+                    return concatObservable(
+                        this._writeByte(constants.SYS_TRIGGER, constants.SYSTEM_TRIGGER_RESET_INTERRUPT),
+                        fromObservable(interrupts)
+                    );
+                })
+            );
+    }
+
+
     private _readNumber(lsbAddress: number, debugName: string): Observable<number> {
         // numbers are always LSB then MSB
         return this._readBytes(lsbAddress, 2)
@@ -345,6 +1562,33 @@ export class Bno055Driver {
     }
 
 
+    private _readSnapshot(): Observable<Bno055Snapshot> {
+        // all of the data registers are contiguous, so they are read in a single transaction
+        return this._readBytes(constants.ACCEL_DATA_START, constants.CALIB_STAT - constants.ACCEL_DATA_START + 1)
+            .pipe(
+                map(buffer => this._bufferToSnapshot(buffer)),
+                tap(x => {
+                    if (this._debug.enabled) {
+                        this._debug(`Read snapshot: ${JSON.stringify(x)}`);
+                    }
+                })
+            );
+    }
+
+
+    private _readTemperature(divisor: number): Observable<Temperature> {
+        return this._readByte(constants.TEMP)
+            .pipe(
+                map(byte => ({ value: fromInt8(byte) / divisor, unit: this._units.temperature })),
+                tap(x => {
+                    if (this._debug.enabled) {
+                        this._debug(`Read temperature: ${JSON.stringify(x)}`);
+                    }
+                })
+            );
+    }
+
+
     private _readVector(startAddress: number, divisor: number, debugName: string): Observable<Vector> {
         return this._readBytes(startAddress, 6)
             .pipe(
@@ -358,6 +1602,47 @@ export class Bno055Driver {
     }
 
 
+    private _requireMode(dataName: string, validModes?: Bno055Mode[]): Observable<never> {
+        return !validModes || validModes.indexOf(this._mode) !== -1
+            ? emptyObservable()
+            : throwObservable(new Bno055Error(`The ${dataName} data is only available in ${validModes.join(", ")} modes, not in ${this._mode} mode.`));
+    }
+
+
+    private _saveCalibration(store: Bno055CalibrationStore): Observable<never> {
+        return zipObservable(
+            this._readCalibration(),
+            this._readDeviceInfo()
+        ).pipe(
+            mergeMap(([calibration, device]) => store.save(Bno055CalibrationStore.createProfile(calibration, device, this._mode))),
+            tap(undefined, undefined, () => { this._debug(`Saved calibration profile to ${store.path}`); }),
+            catchError(err => {
+                // a failed save should not end the data streams
+                this._debug(`Could not save calibration profile to ${store.path}: ${err.message}`);
+                return emptyObservable();
+            })
+        );
+    }
+
+
+    private _runOnce(source: Observable<never>): Observable<never> {
+        // unlike a published stream, the source is not run again for later subscribers (which
+        // would reset the module), and it keeps running if all of its subscribers unsubscribe
+        let result: ReplaySubject<never> | undefined;
+        return deferObservable(() => {
+            if (this._closed) {
+                return throwObservable(new Bno055Error(closedMessage));
+            }
+
+            if (!result) {
+                result = new ReplaySubject<never>();
+                this._work.add(source.subscribe(result));
+            }
+            return result.pipe(takeUntil(this._closeSignal));
+        });
+    }
+
+
     private _setMode(mode: Bno055ModeWithConfig): Observable<never> {
         const modeValue = mode === "accgyro" ? constants.OPERATION_MODE_ACCGYRO
             : mode === "accmag" ? constants.OPERATION_MODE_ACCMAG
@@ -375,22 +1660,48 @@ export class Bno055Driver {
 
         return concatObservable(
             this._writeByte(constants.OPR_MODE, modeValue),
-            this._delay(30)
+            this._delay(mode === "config" ? constants.MODE_SWITCH_TO_CONFIG_DELAY_MS : constants.MODE_SWITCH_FROM_CONFIG_DELAY_MS)
         ).pipe(tap(undefined, undefined, () => this._debug(`Set mode to ${mode} with byte 0x${modeValue.toString(16)}`)));
     }
 
 
-    private _setOrAwaitCalibrationData(calibrationData?: Bno055CalibrationData): Observable<never> {
+    private _setOrAwaitCalibrationData(
+        calibrationData?: Bno055CalibrationData,
+        minimumLevels?: Partial<Bno055CalibrationStatus>
+    ): Observable<never> {
+        const store = this._calibrationStore;
         if (calibrationData) {
             return this._writeCalibrationData(calibrationData);
+        } else if (store) {
+            // use the stored profile if it can be loaded, otherwise wait for calibration
+            return store.load()
+                .pipe(
+                    catchError(err => {
+                        this._debug(`Could not load calibration profile from ${store.path}: ${err.message}`);
+                        return ofObservable<Bno055CalibrationProfile | undefined>(undefined);
+                    }),
+                    mergeMap(profile => {
+                        if (!profile) {
+                            return this._awaitCalibration(minimumLevels);
+                        }
+
+                        this._debug(`Loaded calibration profile saved at ${profile.savedAt} from ${store.path}`);
+                        return this._writeCalibrationData(profile.calibration);
+                    })
+                );
         } else {
             // wait for calibration state to be correct
-            return this._awaitCalibration();
+            return this._awaitCalibration(minimumLevels);
         }
     }
 
 
     private _writeCalibrationData(calibrationData: Bno055CalibrationData): Observable<never> {
+        const problems = Bno055CalibrationStore.validate(calibrationData);
+        if (problems.length > 0) {
+            return throwObservable(new Bno055CalibrationError(problems));
+        }
+
         return concatObservable(
             this._writeByte(constants.ACCEL_OFFSET_X_LSB, int16ToLsb(calibrationData.accelerometerOffset.x)),
             this._writeByte(constants.ACCEL_OFFSET_X_MSB, int16ToMsb(calibrationData.accelerometerOffset.x)),
@@ -413,11 +1724,132 @@ export class Bno055Driver {
             this._writeByte(constants.MAG_OFFSET_Z_LSB, int16ToLsb(calibrationData.magnetometerOffset.z)),
             this._writeByte(constants.MAG_OFFSET_Z_MSB, int16ToMsb(calibrationData.magnetometerOffset.z)),
             this._writeByte(constants.MAG_RADIUS_LSB, int16ToLsb(calibrationData.magnetometerRadius)),
-            this._writeByte(constants.MAG_RADIUS_MSB, int16ToMsb(calibrationData.magnetometerRadius))
+            this._writeByte(constants.MAG_RADIUS_MSB, int16ToMsb(calibrationData.magnetometerRadius)),
+
+            // verify the write by reading the registers back
+            this._readCalibrationRegisters().pipe(
+                mergeMap(readBack => calibrationDataEquals(readBack, calibrationData)
+                    ? emptyObservable()
+                    : throwObservable(new Bno055CalibrationMismatchError(calibrationData, readBack)))
+            )
+        ).pipe(
+            tap(undefined, undefined, () => { this._debug("Wrote and verified calibration data"); })
         );
     }
 
 
+    private _writePowerMode(powerMode: Bno055PowerMode): Observable<never> {
+        const powerModeValue = powerMode === "low power" ? constants.POWER_MODE_LOWPOWER
+            : powerMode === "suspend" ? constants.POWER_MODE_SUSPEND
+            : constants.POWER_MODE_NORMAL;
+
+        return this._writeByte(constants.PWR_MODE, powerModeValue)
+            .pipe(
+                tap(undefined, undefined, () => this._debug(`Set power mode to ${powerMode} with byte 0x${powerModeValue.toString(16)}`))
+            );
+    }
+
+
+    private _withConfigMode<T>(observable: Observable<T>): Observable<T> {
+        // the module is returned to whichever mode it was in, which is not the
+        // configured mode while initialization is waiting for calibration
+        return this._readByte(constants.OPR_MODE)
+            .pipe(
+                mergeMap(modeByte => {
+                    if ((modeByte & 0x0f) === constants.OPERATION_MODE_CONFIG) {
+                        return observable;
+                    }
+
+                    // pause the data streams while the module is in config mode; the values are
+                    // held until the mode has been restored, since a subscriber that stops at the
+                    // first value would otherwise leave the module in config mode
+                    this._pauseCount++;
+                    return concatObservable(
+                        this._setMode("config"),
+                        observable
+                    ).pipe(
+                        toArray(),
+                        mergeMap(values => concatObservable(
+                            this._writeByte(constants.OPR_MODE, modeByte),
+                            this._delay(constants.MODE_SWITCH_FROM_CONFIG_DELAY_MS),
+                            fromObservable(values)
+                        )),
+                        finalize(() => { this._pauseCount--; })
+                    );
+                })
+            );
+    }
+
+
+    private _withPage<T>(page: 0 | 1, observable: Observable<T>): Observable<T> {
+        // every other read expects page 0, so the page is switched back even if the
+        // observable fails, and the data streams are paused until it has been
+        return deferObservable(() => {
+            this._pauseCount++;
+            return concatObservable(
+                this._ensurePage(page),
+                observable,
+                this._ensurePage(0)
+            ).pipe(
+                catchError(err => concatObservable(this._ensurePage(0), throwObservable(err))),
+                finalize(() => { this._pauseCount--; })
+            );
+        });
+    }
+
+
+    private static _axisRemapToRegisters(axisRemap: Bno055AxisRemap): AxisRemapRegisters | undefined {
+        const axisValues: { [axis: string]: number } = {
+            x: constants.AXIS_REMAP_X,
+            y: constants.AXIS_REMAP_Y,
+            z: constants.AXIS_REMAP_Z
+        };
+        const sources = [axisRemap.x, axisRemap.y, axisRemap.z];
+        const axes = sources.map(source => source.replace("-", ""));
+
+        // the remap must be a permutation of the three axes
+        if (axes.some((axis, index) => axisValues[axis] === undefined || axes.indexOf(axis) !== index)) {
+            return undefined;
+        }
+
+        // the configuration register has the source of X in bits 0-1, Y in bits 2-3 and Z in bits 4-5;
+        // the sign register has the sign of X in bit 2, Y in bit 1 and Z in bit 0
+        const config = axisValues[axes[0]] | (axisValues[axes[1]] << 2) | (axisValues[axes[2]] << 4);
+        const sign = sources.reduce((result, source) =>
+            (result << 1) | (source.charAt(0) === "-" ? constants.AXIS_REMAP_NEGATIVE : constants.AXIS_REMAP_POSITIVE), 0);
+
+        return { config, sign };
+    }
+
+
+    private static _bufferToEuler(buffer: Buffer, divisor: number): EulerAngles {
+        // the Euler angles have the order: heading (LSB then MSB), roll (LSB then MSB), pitch (LSB then MSB)
+        return {
+            heading: fromInt16((buffer[1] << 8) | buffer[0]) / divisor,
+            roll: fromInt16((buffer[3] << 8) | buffer[2]) / divisor,
+            pitch: fromInt16((buffer[5] << 8) | buffer[4]) / divisor
+        };
+    }
+
+
+    private static _bufferToHealth(buffer: Buffer): Bno055Health {
+        // the buffer has the order: self test result, interrupt status, system clock status, system status, system error
+        const selfTest = Bno055Driver._byteToSelfTestResult(buffer[0]);
+        const interrupts = Bno055Driver._byteToInterruptStatus(buffer[1]);
+        const status = systemStatuses[buffer[3]] || "unknown";
+        const error = systemErrors[buffer[4]] || "unknown";
+        return {
+            status,
+            error,
+            selfTest,
+            interrupts,
+            mainClockConfiguring: (buffer[2] & constants.SYS_CLK_STAT_MAIN_CLK) !== 0,
+            healthy: status !== "error" && status !== "unknown" && error === "none"
+                && selfTest.accelerometer && selfTest.magnetometer && selfTest.gyroscope && selfTest.microcontroller
+        };
+    }
+
+
     private static _bufferToQuaternion(buffer: Buffer): Quaternion {
         // the quaternion has the order: W (LSB then MSB), X (LSB then MSB), Y (LSB then MSB), Z (LSB then MSB)
         return {
@@ -439,18 +1871,235 @@ export class Bno055Driver {
     }
 
 
-    private readonly _calibrationDataStream = new ReplaySubject<Bno055CalibrationData>();
+    private static _byteToCalibrationStatus(byte: number): Bno055CalibrationStatus {
+        // the calibration status byte has four 2-bit fields: system, gyroscope, accelerometer, magnetometer
+        return {
+            system: (byte >> 6 & 0x03) as Bno055CalibrationLevel,
+            gyroscope: (byte >> 4 & 0x03) as Bno055CalibrationLevel,
+            accelerometer: (byte >> 2 & 0x03) as Bno055CalibrationLevel,
+            magnetometer: (byte & 0x03) as Bno055CalibrationLevel
+        };
+    }
+
+
+    private static _byteToInterruptStatus(byte: number): Bno055InterruptStatus {
+        return {
+            accelerometerAnyMotion: (byte & constants.INTR_STAT_ACCEL_ANY_MOTION) !== 0,
+            accelerometerHighG: (byte & constants.INTR_STAT_ACCEL_HIGH_G) !== 0,
+            accelerometerNoMotion: (byte & constants.INTR_STAT_ACCEL_NO_MOTION) !== 0,
+            gyroscopeAnyMotion: (byte & constants.INTR_STAT_GYRO_ANY_MOTION) !== 0,
+            gyroscopeHighRate: (byte & constants.INTR_STAT_GYRO_HIGH_RATE) !== 0
+        };
+    }
+
+
+    private static _byteToSelfTestResult(byte: number): Bno055SelfTestResult {
+        // a set bit means that the self test passed
+        return {
+            accelerometer: (byte & constants.SELFTEST_ACCEL) !== 0,
+            magnetometer: (byte & constants.SELFTEST_MAG) !== 0,
+            gyroscope: (byte & constants.SELFTEST_GYRO) !== 0,
+            microcontroller: (byte & constants.SELFTEST_MCU) !== 0
+        };
+    }
+
+
+    private static _sensorConfigToRegisters(sensorConfig: Bno055SensorConfig): SensorConfigRegisters | undefined {
+        const accelerometer = sensorConfig.accelerometer || {};
+        const gyroscope = sensorConfig.gyroscope || {};
+        const magnetometer = sensorConfig.magnetometer || {};
+
+        // each field that is not given keeps its reset value
+        const fields: Array<[number, Array<string | number>, string | number | undefined, number, number]> = [
+            [0, accelerometerRanges, accelerometer.range, 0, constants.ACC_CONFIG_RANGE_MASK],
+            [0, accelerometerBandwidths, accelerometer.bandwidth, constants.ACC_CONFIG_BANDWIDTH_SHIFT, constants.ACC_CONFIG_BANDWIDTH_MASK],
+            [0, accelerometerPowerModes, accelerometer.powerMode, constants.ACC_CONFIG_POWER_MODE_SHIFT, constants.ACC_CONFIG_POWER_MODE_MASK],
+            [1, magnetometerDataRates, magnetometer.dataRate, 0, constants.MAG_CONFIG_DATA_RATE_MASK],
+            [1, magnetometerOperationModes, magnetometer.operationMode, constants.MAG_CONFIG_OPERATION_MODE_SHIFT, constants.MAG_CONFIG_OPERATION_MODE_MASK],
+            [2, gyroscopeRanges, gyroscope.range, 0, constants.GYR_CONFIG_0_RANGE_MASK],
+            [2, gyroscopeBandwidths, gyroscope.bandwidth, constants.GYR_CONFIG_0_BANDWIDTH_SHIFT, constants.GYR_CONFIG_0_BANDWIDTH_MASK]
+        ];
+        const registers = [constants.ACC_CONFIG_DEFAULT, constants.MAG_CONFIG_DEFAULT, constants.GYR_CONFIG_0_DEFAULT];
+
+        for (const [register, values, value, shift, mask] of fields) {
+            if (value !== undefined) {
+                const index = values.indexOf(value);
+                if (index === -1) {
+                    return undefined;
+                }
+                registers[register] = (registers[register] & ~mask) | (index << shift);
+            }
+        }
+
+        return { accelerometer: registers[0], magnetometer: registers[1], gyroscope: registers[2] };
+    }
+
+
+    private static _interruptConfigToRegisters(config: Bno055InterruptConfig): Array<[number, number]> | undefined {
+        const inRange = (value: number | undefined, max: number) => value === undefined || (Math.round(value) === value && value >= 0 && value <= max);
+        const axesToBits = (axes: Bno055Axis[] = ["x", "y", "z"]) =>
+            ["x", "y", "z"].reduce((bits, axis, index) => axes.indexOf(axis as Bno055Axis) !== -1 ? bits | (1 << index) : bits, 0);
+
+        let enabled = 0;
+        let mask = 0;
+        const enable = (interrupt: Bno055InterruptType, pin?: boolean) => {
+            enabled |= interruptBits[interrupt];
+            mask |= pin === false ? 0 : interruptBits[interrupt];
+        };
+
+        // no motion and slow motion are two modes of the same interrupt
+        const noMotionType = config.accelerometerSlowMotion ? "accelerometerSlowMotion" : "accelerometerNoMotion";
+        const noMotion = config.accelerometerSlowMotion || config.accelerometerNoMotion;
+        if (config.accelerometerSlowMotion && config.accelerometerNoMotion) {
+            return undefined;
+        }
+
+        const registers: Array<[number, number]> = [];
+        let accelerometerSettings = 0;
+        let gyroscopeSettings = 0;
+
+        const anyMotion = config.accelerometerAnyMotion;
+        if (anyMotion) {
+            if (!inRange(anyMotion.threshold, 0xFF) || !inRange(anyMotion.duration, 0x03)) {
+                return undefined;
+            }
+            registers.push([constants.ACC_AM_THRES, anyMotion.threshold]);
+            accelerometerSettings |= anyMotion.duration | (axesToBits(anyMotion.axes) << constants.ACC_INT_SETTINGS_MOTION_AXES_SHIFT);
+            enable("accelerometerAnyMotion", anyMotion.pin);
+        }
+
+        if (noMotion) {
+            if (!inRange(noMotion.threshold, 0xFF) || !inRange(noMotion.duration, 0x3F)) {
+                return undefined;
+            }
+            registers.push(
+                [constants.ACC_NM_THRES, noMotion.threshold],
+                [constants.ACC_NM_SET, (noMotion.duration << constants.ACC_NM_SET_DURATION_SHIFT)
+                    | (noMotionType === "accelerometerNoMotion" ? constants.ACC_NM_SET_NO_MOTION : 0)]
+            );
+            accelerometerSettings |= axesToBits(noMotion.axes) << constants.ACC_INT_SETTINGS_MOTION_AXES_SHIFT;
+            enable(noMotionType, noMotion.pin);
+        }
+
+        const highG = config.accelerometerHighG;
+        if (highG) {
+            if (!inRange(highG.threshold, 0xFF) || !inRange(highG.duration, 0xFF)) {
+                return undefined;
+            }
+            registers.push([constants.ACC_HG_THRES, highG.threshold], [constants.ACC_HG_DURATION, highG.duration]);
+            accelerometerSettings |= axesToBits(highG.axes) << constants.ACC_INT_SETTINGS_HIGH_G_AXES_SHIFT;
+            enable("accelerometerHighG", highG.pin);
+        }
+
+        const gyroscopeAnyMotion = config.gyroscopeAnyMotion;
+        if (gyroscopeAnyMotion) {
+            const slopeSamples = gyroscopeAnyMotion.slopeSamples || 0;
+            const awakeDuration = gyroscopeAnyMotion.awakeDuration || 0;
+            if (!inRange(gyroscopeAnyMotion.threshold, 0x7F) || !inRange(slopeSamples, 0x03) || !inRange(awakeDuration, 0x03)) {
+                return undefined;
+            }
+            registers.push(
+                [constants.GYR_AM_THRES, gyroscopeAnyMotion.threshold],
+                [constants.GYR_AM_SET, slopeSamples | (awakeDuration << constants.GYR_AM_SET_AWAKE_DURATION_SHIFT)]
+            );
+            gyroscopeSettings |= axesToBits(gyroscopeAnyMotion.axes)
+                | (gyroscopeAnyMotion.filtered ? constants.GYR_INT_SETTING_ANY_MOTION_FILTERED : 0);
+            enable("gyroscopeAnyMotion", gyroscopeAnyMotion.pin);
+        }
+
+        const highRate = config.gyroscopeHighRate;
+        if (highRate) {
+            const hysteresis = highRate.hysteresis || 0;
+            if (!inRange(highRate.threshold, 0x1F) || !inRange(hysteresis, 0x03) || !inRange(highRate.duration, 0xFF)) {
+                return undefined;
+            }
+
+            // the same settings are used for each axis
+            const setting = highRate.threshold | (hysteresis << constants.GYR_HR_SET_HYSTERESIS_SHIFT);
+            registers.push(
+                [constants.GYR_HR_X_SET, setting], [constants.GYR_DUR_X, highRate.duration],
+                [constants.GYR_HR_Y_SET, setting], [constants.GYR_DUR_Y, highRate.duration],
+                [constants.GYR_HR_Z_SET, setting], [constants.GYR_DUR_Z, highRate.duration]
+            );
+            gyroscopeSettings |= (axesToBits(highRate.axes) << constants.GYR_INT_SETTING_HIGH_RATE_AXES_SHIFT)
+                | (highRate.filtered ? constants.GYR_INT_SETTING_HIGH_RATE_FILTERED : 0);
+            enable("gyroscopeHighRate", highRate.pin);
+        }
+
+        // the interrupts are enabled once all of their settings have been written
+        registers.push(
+            [constants.ACC_INT_SETTINGS, accelerometerSettings],
+            [constants.GYR_INT_SETTING, gyroscopeSettings],
+            [constants.INT_MSK, mask],
+            [constants.INT_EN, enabled]
+        );
+
+        return registers;
+    }
+
+
+    private static _placementToRegisters(placement: Bno055Placement): AxisRemapRegisters | undefined {
+        const constantsByName = constants as { [name: string]: number };
+        const config = constantsByName[`AXIS_REMAP_CONFIG_${placement}`];
+        const sign = constantsByName[`AXIS_REMAP_SIGN_${placement}`];
+
+        return config === undefined || sign === undefined ? undefined : { config, sign };
+    }
+
+
+    private readonly _address?: number;
+    private readonly _autoSaveStream: Observable<never>;
+    private readonly _bootTimeout: number;
+    private readonly _calibrationStore?: Bno055CalibrationStore;
+    private readonly _closeSignal = new ReplaySubject<void>(1);
+    private _closed: boolean = false;
+    private _consecutiveErrors: number = 0;
     private readonly _debug: debugFactory.IDebugger;
-    private readonly _preCalibrationInitializationStream: Observable<never>;
-    private readonly _initializationStream: Observable<never>;
+    private readonly _divisors: Divisors;
+    private _droppedTicks: number = 0;
+    private _interruptConfig?: Bno055InterruptConfig;
+    private _preCalibrationInitializationStream: Observable<never>;
+    private _initializationStream: Observable<never>;
+    private _mode: Bno055Mode;
     private readonly _readByte: ByteReader;
     private readonly _readBytes: BytesReader;
+    private readonly _options: Bno055Options;
+    private _pauseCount: number = 0;
+    private _powerMode: Bno055PowerMode;
+    private readonly _queue = new TransactionQueue();
+    private _recoveryAttempts: number = 0;
+    private _reinitializationStream?: Observable<never>;
+    private _released: boolean = false;
+    private _suspended: boolean = false;
+    private readonly _transport: Bno055Transport;
+    private readonly _units: Bno055Units;
+    private readonly _work = new Subscription();
     private readonly _writeByte: ByteWriter;
 
 }
 
 
-function fromInt16(int16: number): number {
+function calibrationDataEquals(a: Bno055CalibrationData, b: Bno055CalibrationData): boolean {
+    const vectorEquals = (u: Vector, v: Vector) => u.x === v.x && u.y === v.y && u.z === v.z;
+    return vectorEquals(a.accelerometerOffset, b.accelerometerOffset)
+        && vectorEquals(a.gyroscopeOffset, b.gyroscopeOffset)
+        && vectorEquals(a.magnetometerOffset, b.magnetometerOffset)
+        && a.accelerometerRadius === b.accelerometerRadius
+        && a.magnetometerRadius === b.magnetometerRadius;
+}
+
+
+function fromInt8(int8: number): number {
+    // if sign bit is set, convert to negative value
+    if (0x80 & int8) {
+        return int8 - 0x100;
+    } else {
+        return int8;
+    }
+}
+
+
+export function fromInt16(int16: number): number {
     // if sign bit is set, convert to negative value
     if (0x8000 & int16) {
         return int16 - 0x10000;
@@ -460,20 +2109,73 @@ function fromInt16(int16: number): number {
 }
 
 
-function int16ToLsb(int16: number): number {
+function monotonicTime(): number {
+    // milliseconds from an arbitrary point, unaffected by changes to the system clock
+    const [seconds, nanoseconds] = process.hrtime();
+    return seconds * 1000 + nanoseconds / 1e6;
+}
+
+
+function normalizeHeading(heading: number): number {
+    const normalized = heading % 360;
+    return normalized < 0 ? normalized + 360 : normalized;
+}
+
+
+function quaternionToHeading(quaternion: Quaternion, forwardVector: Vector): number {
+    // the fused orientation rotates from the sensor frame to a world frame with X pointing
+    // to magnetic north, Y to the west and Z up, so the forward vector is rotated into the
+    // world frame and its heading is measured clockwise from north
+    const forward = rotateToWorldFrame(quaternion, forwardVector);
+    return Math.atan2(-forward.y, forward.x) * 180 / Math.PI;
+}
+
+
+function tiltCompensatedHeading(acceleration: Vector, magneticField: Vector, forwardVector: Vector): number {
+    // at rest the accelerometer measures "up", so east is perpendicular to both the magnetic
+    // field and up, and north is perpendicular to both up and east (all in the sensor frame)
+    const east = vectorCross(magneticField, acceleration);
+    const north = vectorCross(acceleration, east);
+    // only the ratio of the components matters, so the vectors are normalized to the same scale
+    return Math.atan2(vectorDot(forwardVector, east) * vectorNorm(north), vectorDot(forwardVector, north) * vectorNorm(east)) * 180 / Math.PI;
+}
+
+
+function unitsToDivisors(units: Bno055Units): Divisors {
+    const milliG = units.acceleration === "mg";
+    return {
+        acceleration: milliG ? constants.ACCEL_DATA_LSB_TO_MILLI_G_DIVISOR : constants.ACCEL_DATA_LSB_TO_METERS_PER_SECOND_SQUARED_DIVISOR,
+        angularRate: units.angularRate === "rps" ? constants.GYRO_DATA_LSB_TO_RPS_DIVISOR : constants.GYRO_DATA_LSB_TO_DPS_DIVISOR,
+        euler: units.angle === "radians" ? constants.EULER_DATA_LSB_TO_RADIANS_DIVISOR : constants.EULER_DATA_LSB_TO_DEGREES_DIVISOR,
+        gravity: milliG ? constants.GRAVITY_DATA_LSB_TO_MILLI_G_DIVISOR : constants.GRAVITY_DATA_LSB_TO_METERS_PER_SECOND_SQUARED_DIVISOR,
+        linearAcceleration: milliG
+            ? constants.LINEAR_ACCEL_DATA_LSB_TO_MILLI_G_DIVISOR
+            : constants.LINEAR_ACCEL_DATA_LSB_TO_METERS_PER_SECOND_SQUARED_DIVISOR,
+        temperature: units.temperature === "fahrenheit" ? constants.TEMP_DATA_LSB_TO_FAHRENHEIT_DIVISOR : constants.TEMP_DATA_LSB_TO_CELSIUS_DIVISOR
+    };
+}
+
+
+function withUnit<T, TUnit extends string>(unit: TUnit): (value: T) => T & WithUnit<TUnit> {
+    // spreading compiles to a copy that works without Object.assign (which Node.js 0.10 does not have)
+    return value => ({ ...(value as {}), unit }) as T & WithUnit<TUnit>;
+}
+
+
+export function int16ToLsb(int16: number): number {
     // if negative, manually set sign bit
     if (int16 < 0) {
-        return (int16 + 0x10000) && 0xff;
+        return (int16 + 0x10000) & 0xff;
     } else {
         return int16 & 0xff;
     }
 }
 
 
-function int16ToMsb(int16: number): number {
+export function int16ToMsb(int16: number): number {
     // if negative, manually set sign bit
     if (int16 < 0) {
-        return (int16 + 0x10000) >> 8 && 0xff;
+        return (int16 + 0x10000) >> 8 & 0xff;
     } else {
         return int16 >> 8 & 0xff;
     }
@@ -0,0 +1,129 @@
+/*
+ * src/calibrationStore.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Persistence of calibration profiles for BNO055 absolute orientation sensor.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import { readFile, writeFile } from "fs";
+import { Observable, throwError as throwObservable } from "rxjs";
+import { mergeMap } from "rxjs/operators";
+
+import { Bno055CalibrationData, Bno055DeviceInfo, Bno055Mode, Vector } from "./bno055";
+import { Bno055CalibrationError, Bno055Error } from "./errors";
+
+
+export interface Bno055CalibrationProfile {
+    schemaVersion: number;
+    savedAt: string;
+    mode: Bno055Mode;
+    device: Bno055DeviceInfo;
+    calibration: Bno055CalibrationData;
+}
+
+
+const schemaVersion = 1;
+
+// limits of the offset and radius registers (in LSB) from the datasheet
+const accelerometerOffsetLimit = 16000; // 16 G range with 1 mg per LSB
+const magnetometerOffsetLimit = 6400; // 400 uT with 16 LSB per uT
+const gyroscopeOffsetLimit = 32000; // 2000 dps with 16 LSB per dps
+const accelerometerRadiusLimit = 1000;
+const magnetometerRadiusLimit = 960;
+
+
+export class Bno055CalibrationStore {
+    constructor(readonly path: string) {
+    }
+
+
+    load(): Observable<Bno055CalibrationProfile> {
+        return new Observable<string>(subscriber => {
+            readFile(this.path, "utf8", (err, content) => {
+                if (err) {
+                    subscriber.error(err);
+                } else {
+                    subscriber.next(content);
+                    subscriber.complete();
+                }
+            });
+        }).pipe(
+            mergeMap(content => {
+                const profile: Bno055CalibrationProfile = JSON.parse(content);
+                if (profile.schemaVersion !== schemaVersion) {
+                    return throwObservable(new Bno055Error(
+                        `Unsupported calibration profile schema version ${profile.schemaVersion} in ${this.path} (expected: ${schemaVersion}).`));
+                }
+
+                const problems = Bno055CalibrationStore.validate(profile.calibration);
+                return problems.length > 0 ? throwObservable(new Bno055CalibrationError(problems)) : [profile];
+            })
+        );
+    }
+
+
+    save(profile: Bno055CalibrationProfile): Observable<never> {
+        const problems = Bno055CalibrationStore.validate(profile.calibration);
+        if (problems.length > 0) {
+            return throwObservable(new Bno055CalibrationError(problems));
+        }
+
+        return new Observable<never>(subscriber => {
+            writeFile(this.path, JSON.stringify(profile, undefined, 2) + "\n", err => {
+                if (err) {
+                    subscriber.error(err);
+                } else {
+                    subscriber.complete();
+                }
+            });
+        });
+    }
+
+
+    static createProfile(calibration: Bno055CalibrationData, device: Bno055DeviceInfo, mode: Bno055Mode): Bno055CalibrationProfile {
+        return {
+            schemaVersion,
+            savedAt: new Date().toISOString(),
+            mode,
+            device,
+            calibration
+        };
+    }
+
+
+    static validate(calibration: Bno055CalibrationData): string[] {
+        const problems: string[] = [];
+
+        const checkNumber = (name: string, value: number, min: number, max: number) => {
+            if (typeof value !== "number" || Math.round(value) !== value) {
+                problems.push(`${name} must be an integer`);
+            } else if (value < min || value > max) {
+                problems.push(`${name} is ${value}, which is outside of ${min} to ${max}`);
+            }
+        };
+        const checkVector = (name: string, vector: Vector, limit: number) => {
+            if (!vector) {
+                problems.push(`${name} is missing`);
+            } else {
+                checkNumber(`${name}.x`, vector.x, -limit, limit);
+                checkNumber(`${name}.y`, vector.y, -limit, limit);
+                checkNumber(`${name}.z`, vector.z, -limit, limit);
+            }
+        };
+
+        if (!calibration) {
+            return ["the calibration data is missing"];
+        }
+
+        checkVector("accelerometerOffset", calibration.accelerometerOffset, accelerometerOffsetLimit);
+        checkVector("gyroscopeOffset", calibration.gyroscopeOffset, gyroscopeOffsetLimit);
+        checkVector("magnetometerOffset", calibration.magnetometerOffset, magnetometerOffsetLimit);
+        checkNumber("accelerometerRadius", calibration.accelerometerRadius, 0, accelerometerRadiusLimit);
+        checkNumber("magnetometerRadius", calibration.magnetometerRadius, 0, magnetometerRadiusLimit);
+
+        return problems;
+    }
+}
@@ -0,0 +1,507 @@
+#!/usr/bin/env node
+/*
+ * src/cli.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Command-line tool for inspecting, calibrating and streaming from a BNO055
+ * absolute orientation sensor.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import { Observable, concat as concatObservable, defer as deferObservable, from as fromObservable, merge as mergeObservable, of as ofObservable, Subject, throwError as throwObservable, zip as zipObservable } from "rxjs";
+import { catchError, concatMap, distinctUntilChanged, finalize, ignoreElements, map, mergeMap, take, takeUntil, tap } from "rxjs/operators";
+
+import { Bno055AxisRemap, Bno055CalibrationStatus, Bno055Driver, Bno055EnvelopeStream, Bno055Mode, Bno055Options, Bno055Placement, Bno055SignedAxis, Bno055Snapshot } from "./bno055";
+import { Bno055CalibrationStore } from "./calibrationStore";
+import { Bno055Emulator, Bno055EmulatorSample } from "./emulator";
+import { Bno055Error } from "./errors";
+import { Bno055I2cBus } from "./i2cTransport";
+import { axisAngleToQuaternion, quaternionMultiply, rotateToSensorFrame } from "./math";
+
+
+type CliCommand = "calibrate" | "info" | "remap" | "status" | "stream";
+
+
+type OutputFormat = "table" | "json" | "csv";
+
+
+interface CliOptions {
+    command: CliCommand;
+    bus: number;
+    address: number;
+    mode: Bno055Mode;
+    orientation?: Bno055Placement | Bno055AxisRemap;
+    orientations: Array<Bno055Placement | Bno055AxisRemap>; // for remap
+    profile?: string;
+    output: string; // the calibration profile written by calibrate
+    sensors: Bno055EnvelopeStream[];
+    interval: number;
+    count?: number;
+    format: OutputFormat;
+    skipCalibration: boolean;
+    simulate: boolean;
+    debug: boolean;
+    help: boolean;
+}
+
+
+class UsageError extends Bno055Error {
+}
+
+
+const usage = `Usage: bno055 <command> [options]
+
+Commands:
+  info                  Show the chip ID, revisions and self test result.
+  status                Show the system status and calibration levels.
+  calibrate             Show calibration progress, then save a calibration profile.
+  stream                Stream sensor readings.
+  remap [orientation..] Show the acceleration with each orientation (default: P0 to P7).
+
+Options:
+  --bus <number>           I2C bus number (default: 1)
+  --address <number>       I2C address of the module (default: 0x28)
+  --mode <mode>            Operation mode (default: ndof)
+  --orientation <value>    Placement (P0 to P7) or axis remap such as y,-x,z
+  --profile <file>         Calibration profile to load before streaming
+  --output <file>          Calibration profile written by calibrate (default: calibration.json)
+  --sensors <list>         Comma separated sensors to stream (default: accelerometer,gyroscope,magnetometer):
+                           accelerometer, euler, gravity, gyroscope, linearAcceleration,
+                           magnetometer, quaternion, temperature
+  --interval <ms>          Time between readings (default: 100)
+  --count <number>         Number of readings to stream (default: until interrupted)
+  --format <format>        Output format: table, json or csv (default: table)
+  --skip-calibration       Stream without waiting for the sensors to be calibrated
+  --simulate               Use an emulated module instead of the I2C bus
+  --debug                  Show debugging information
+  --help                   Show this help`;
+
+
+const commands: CliCommand[] = ["calibrate", "info", "remap", "status", "stream"];
+const formats: OutputFormat[] = ["table", "json", "csv"];
+const modes: Bno055Mode[] = ["acconly", "magonly", "gyronly", "accmag", "accgyro", "maggyro", "amg", "imuplus", "compass",
+    "m4g", "ndof_fmc_off", "ndof"];
+const placements: Bno055Placement[] = ["P0", "P1", "P2", "P3", "P4", "P5", "P6", "P7"];
+const signedAxes: Bno055SignedAxis[] = ["x", "y", "z", "-x", "-y", "-z"];
+
+// the value options and flags for each option name
+const valueOptions = ["address", "bus", "count", "format", "interval", "mode", "orientation", "output", "profile", "sensors"];
+const flagOptions = ["debug", "help", "simulate", "skip-calibration"];
+
+// the fields output for each sensor, in order
+const sensorFields: { [sensor in Bno055EnvelopeStream]: string[] } = {
+    accelerometer: ["x", "y", "z"],
+    euler: ["heading", "roll", "pitch"],
+    gravity: ["x", "y", "z"],
+    gyroscope: ["x", "y", "z"],
+    linearAcceleration: ["x", "y", "z"],
+    magnetometer: ["x", "y", "z"],
+    quaternion: ["w", "x", "y", "z"],
+    temperature: ["value"]
+};
+
+// no minimum calibration levels, so that data can be read before the module is calibrated
+const uncalibrated: Bno055CalibrationStatus = { system: 0, gyroscope: 0, accelerometer: 0, magnetometer: 0 };
+
+
+class Bno055Cli {
+    constructor(private readonly _options: CliOptions, private readonly _bus: Bno055I2cBus, private readonly _output: NodeJS.WritableStream) {
+    }
+
+
+    calibrate(): Observable<never> {
+        const store = new Bno055CalibrationStore(this._options.output);
+        return this._withDriver({}, driver => {
+            this._write("Move the module to calibrate each sensor (see the datasheet); CTRL-C to abort.");
+
+            // the progress is shown until the calibration data has been saved
+            const saved = new Subject<void>();
+            return mergeObservable(
+                driver.streamCalibrationStatus(500)
+                    .pipe(
+                        map(formatCalibrationStatus),
+                        distinctUntilChanged(),
+                        tap(status => this._write(`Calibration: ${status}`)),
+                        takeUntil(saved),
+                        ignoreElements()
+                    ),
+                zipObservable(driver.getCalibrationData(), driver.getDeviceInfo())
+                    .pipe(
+                        mergeMap(([calibration, device]) =>
+                            store.save(Bno055CalibrationStore.createProfile(calibration, device, driver.mode))),
+                        tap(undefined, undefined, () => this._write(`Saved the calibration profile to ${store.path}.`)),
+                        finalize(() => saved.next())
+                    )
+            );
+        });
+    }
+
+
+    info(): Observable<never> {
+        return this._withDriver({}, driver =>
+            zipObservable(driver.getDeviceInfo(), driver.getSystemStatus())
+                .pipe(
+                    tap(([device, health]) => this._writeFields([
+                        ["Address", device.address === undefined ? "unknown" : hex(device.address)],
+                        ["Chip ID", hex(device.chipId)],
+                        ["Accelerometer revision", hex(device.accelerometerRevision)],
+                        ["Magnetometer revision", hex(device.magnetometerRevision)],
+                        ["Gyroscope revision", hex(device.gyroscopeRevision)],
+                        ["Software revision", hex(device.softwareRevision)],
+                        ["Bootloader revision", hex(device.bootloaderRevision)],
+                        ["Self test", (Object.keys(health.selfTest) as Array<keyof typeof health.selfTest>)
+                            .map(sensor => `${sensor} ${health.selfTest[sensor] ? "passed" : "failed"}`)
+                            .join(", ")]
+                    ])),
+                    ignoreElements()
+                )
+        );
+    }
+
+
+    remap(): Observable<never> {
+        // the module is reinitialized for each orientation since it is set during initialization
+        return deferObservable(() => {
+            this._write("Acceleration (m/s^2) with each orientation; the axis reading about +9.8 points up.");
+            return fromObservable(this._options.orientations)
+                .pipe(
+                    concatMap(orientation => this._withDriver({ orientation, minimumCalibrationLevels: uncalibrated }, driver =>
+                        driver.streamAccelerometer()
+                            .pipe(
+                                take(1),
+                                tap(acceleration => this._write(`${pad(formatOrientation(orientation), 8, true)}`
+                                    + ` x: ${pad(acceleration.x.toFixed(2), 7)}`
+                                    + ` y: ${pad(acceleration.y.toFixed(2), 7)}`
+                                    + ` z: ${pad(acceleration.z.toFixed(2), 7)}`)),
+                                ignoreElements()
+                            )
+                    ))
+                );
+        });
+    }
+
+
+    run(): Observable<never> {
+        switch (this._options.command) {
+            case "calibrate":
+                return this.calibrate();
+            case "info":
+                return this.info();
+            case "remap":
+                return this.remap();
+            case "status":
+                return this.status();
+            default:
+                return this.stream();
+        }
+    }
+
+
+    status(): Observable<never> {
+        // neither reading waits for calibration
+        return this._withDriver({}, driver =>
+            zipObservable(driver.getSystemStatus(), driver.streamCalibrationStatus().pipe(take(1)))
+                .pipe(
+                    tap(([health, calibrationStatus]) => this._writeFields([
+                        ["Status", health.status],
+                        ["Error", health.error],
+                        ["Healthy", health.healthy ? "yes" : "no"],
+                        ["Calibration", formatCalibrationStatus(calibrationStatus)]
+                    ])),
+                    ignoreElements()
+                )
+        );
+    }
+
+
+    stream(): Observable<never> {
+        const options = this._options;
+        const columns = ([] as string[]).concat(...options.sensors.map(sensor => sensorFields[sensor].map(field => `${sensor}.${field}`)));
+        const overrides: Partial<Bno055Options> = {
+            calibrationProfile: options.profile,
+            minimumCalibrationLevels: options.skipCalibration ? uncalibrated : undefined
+        };
+        return this._withDriver(overrides, driver => deferObservable(() => {
+            let startTime: number | undefined;
+            if (options.format === "csv") {
+                this._write(["time"].concat(columns).join(","));
+            } else if (options.format === "table") {
+                this._write(["time"].concat(columns).map(column => pad(column, tableWidth(column))).join(" "));
+            }
+
+            const snapshots = driver.streamAll(options.interval);
+            return (options.count === undefined ? snapshots : snapshots.pipe(take(options.count)))
+                .pipe(
+                    tap(snapshot => {
+                        startTime = startTime === undefined ? Date.now() : startTime;
+                        this._write(this._formatSnapshot(Date.now() - startTime, snapshot, columns));
+                    }),
+                    ignoreElements()
+                );
+        }));
+    }
+
+
+    private _createDriver(overrides: Partial<Bno055Options>): Bno055Driver {
+        const options: Bno055Options = {
+            i2c: this._bus,
+            address: this._options.address,
+            mode: this._options.mode,
+            orientation: this._options.orientation,
+            debug: this._options.debug
+        };
+        return new Bno055Driver({ ...options, ...overrides });
+    }
+
+
+    private _formatSnapshot(time: number, snapshot: Bno055Snapshot, columns: string[]): string {
+        if (this._options.format === "json") {
+            const sample: { [key: string]: number | Bno055Snapshot[Bno055EnvelopeStream] } = { time };
+            this._options.sensors.forEach(sensor => sample[sensor] = snapshot[sensor]);
+            return JSON.stringify(sample);
+        }
+
+        // the data that is not available in the current mode is left empty
+        const values = columns.map(column => {
+            const [sensor, field] = column.split(".");
+            const reading: {} | undefined = snapshot[sensor as Bno055EnvelopeStream];
+            const value = reading && (reading as { [field: string]: number | string | undefined })[field];
+            return typeof value === "number" ? value.toFixed(3) : "";
+        });
+        return this._options.format === "csv"
+            ? [time.toString()].concat(values).join(",")
+            : [time.toString()].concat(values).map((value, index) => pad(value, tableWidth(index === 0 ? "time" : columns[index - 1]))).join(" ");
+    }
+
+
+    private _withDriver(overrides: Partial<Bno055Options>, use: (driver: Bno055Driver) => Observable<never>): Observable<never> {
+        // the driver is closed when the command finishes, fails or is interrupted; unless it is
+        // interrupted, the command only ends once the driver is closed, so that the next driver
+        // on the same bus does not start while this one is still suspending the module
+        return deferObservable(() => {
+            const driver = this._createDriver(overrides);
+            return concatObservable(
+                use(driver).pipe(
+                    catchError(err => concatObservable(driver.close(), throwObservable(err)))
+                ),
+                driver.close()
+            ).pipe(
+                finalize(() => driver.close().subscribe(undefined, () => undefined))
+            );
+        });
+    }
+
+
+    private _write(line: string): void {
+        this._output.write(`${line}\n`);
+    }
+
+
+    private _writeFields(fields: Array<[string, string]>): void {
+        const width = Math.max(...fields.map(([name]) => name.length)) + 1;
+        fields.forEach(([name, value]) => this._write(`${pad(`${name}:`, width + 1, true)}${value}`));
+    }
+}
+
+
+function defaultOptions(): CliOptions {
+    return {
+        command: "info",
+        bus: 1,
+        address: 0x28,
+        mode: "ndof",
+        orientations: placements,
+        output: "calibration.json",
+        sensors: ["accelerometer", "gyroscope", "magnetometer"],
+        interval: 100,
+        format: "table",
+        skipCalibration: false,
+        simulate: false,
+        debug: false,
+        help: false
+    };
+}
+
+
+function formatCalibrationStatus(status: Bno055CalibrationStatus): string {
+    return (Object.keys(status) as Array<keyof Bno055CalibrationStatus>)
+        .map(part => `${part} ${status[part]}/3`)
+        .join(", ");
+}
+
+
+function formatOrientation(orientation: Bno055Placement | Bno055AxisRemap): string {
+    return typeof orientation === "string" ? orientation : `${orientation.x},${orientation.y},${orientation.z}`;
+}
+
+
+function hex(value: number): string {
+    return `0x${value.toString(16)}`;
+}
+
+
+function openBus(options: CliOptions): Observable<Bno055I2cBus> {
+    if (options.simulate) {
+        return ofObservable(new Bno055Emulator({ address: options.address, motion: simulatedMotion }));
+    }
+
+    // the i2c-bus package is only needed (and only installed on some platforms) to use real hardware
+    return fromObservable(import("i2c-bus"))
+        .pipe(
+            map(i2cBus => i2cBus.openSync(options.bus)),
+            catchError(err => throwObservable(new Bno055Error(`Could not open I2C bus ${options.bus} (${err && err.message || err}); `
+                + "use --simulate to run without hardware.")))
+        );
+}
+
+
+function pad(text: string, width: number, alignLeft: boolean = false): string {
+    const padding = new Array(Math.max(0, width - text.length) + 1).join(" ");
+    return alignLeft ? text + padding : padding + text;
+}
+
+
+function parseArguments(args: string[]): CliOptions {
+    const values: { [name: string]: string } = {};
+    const flags: { [name: string]: boolean } = {};
+    const positional: string[] = [];
+    for (let index = 0; index < args.length; index++) {
+        const arg = args[index];
+        if (arg.indexOf("--") !== 0) {
+            positional.push(arg);
+            continue;
+        }
+
+        const [name, inlineValue] = arg.slice(2).split(/=(.*)/);
+        if (flagOptions.indexOf(name) !== -1 && inlineValue === undefined) {
+            flags[name] = true;
+        } else if (valueOptions.indexOf(name) !== -1) {
+            const value = inlineValue === undefined ? args[++index] : inlineValue;
+            if (value === undefined) {
+                throw new UsageError(`The --${name} option needs a value.`);
+            }
+            values[name] = value;
+        } else {
+            throw new UsageError(`Unknown option: ${arg}`);
+        }
+    }
+
+    const command = positional.shift() as CliCommand;
+    if (flags.help) {
+        return { ...defaultOptions(), help: true };
+    } else if (command === undefined) {
+        throw new UsageError("A command is required.");
+    } else if (commands.indexOf(command) === -1) {
+        throw new UsageError(`Unknown command: ${command}`);
+    } else if (positional.length > 0 && command !== "remap") {
+        throw new UsageError(`Unexpected argument: ${positional[0]}`);
+    }
+
+    const options = defaultOptions();
+    return {
+        command,
+        bus: values.bus === undefined ? options.bus : parseInteger("bus", values.bus, 0),
+        address: values.address === undefined ? options.address : parseInteger("address", values.address, 0),
+        mode: values.mode === undefined ? options.mode : parseChoice("mode", values.mode, modes),
+        orientation: values.orientation === undefined ? undefined : parseOrientation(values.orientation),
+        orientations: positional.length === 0 ? placements : positional.map(parseOrientation),
+        profile: values.profile,
+        output: values.output === undefined ? options.output : values.output,
+        sensors: values.sensors === undefined
+            ? options.sensors
+            : values.sensors.split(",").map(sensor => parseChoice("sensor", sensor, Object.keys(sensorFields) as Bno055EnvelopeStream[])),
+        interval: values.interval === undefined ? options.interval : parseInteger("interval", values.interval, 1),
+        count: values.count === undefined ? undefined : parseInteger("count", values.count, 1),
+        format: values.format === undefined ? options.format : parseChoice("format", values.format, formats),
+        skipCalibration: !!flags["skip-calibration"],
+        simulate: !!flags.simulate,
+        debug: !!flags.debug,
+        help: false
+    };
+}
+
+
+function parseChoice<T extends string>(name: string, value: string, choices: T[]): T {
+    if (choices.indexOf(value as T) === -1) {
+        throw new UsageError(`Invalid ${name}: ${value} (expected one of ${choices.join(", ")}).`);
+    }
+    return value as T;
+}
+
+
+function parseInteger(name: string, value: string, minimum: number): number {
+    // hexadecimal values such as 0x29 are accepted
+    const parsed = Number(value);
+    if (value.trim() === "" || isNaN(parsed) || Math.floor(parsed) !== parsed || parsed < minimum) {
+        throw new UsageError(`Invalid ${name}: ${value} (expected an integer of at least ${minimum}).`);
+    }
+    return parsed;
+}
+
+
+function parseOrientation(value: string): Bno055Placement | Bno055AxisRemap {
+    if (placements.indexOf(value as Bno055Placement) !== -1) {
+        return value as Bno055Placement;
+    }
+
+    const axes = value.split(",");
+    if (axes.length !== 3 || axes.some(axis => signedAxes.indexOf(axis as Bno055SignedAxis) === -1)) {
+        throw new UsageError(`Invalid orientation: ${value} (expected P0 to P7 or an axis remap such as y,-x,z).`);
+    }
+    const [x, y, z] = axes as Bno055SignedAxis[];
+    return { x, y, z };
+}
+
+
+function simulatedMotion(time: number): Bno055EmulatorSample {
+    // the simulated module is tilted and turns slowly about the vertical axis in a constant magnetic field
+    const orientation = quaternionMultiply(
+        axisAngleToQuaternion({ axis: { x: 0, y: 0, z: 1 }, angle: time / 100 }),
+        axisAngleToQuaternion({ axis: { x: 1, y: 0, z: 0 }, angle: 15 })
+    );
+    return {
+        orientation,
+        angularRate: rotateToSensorFrame(orientation, { x: 0, y: 0, z: 10 }),
+        magneticField: rotateToSensorFrame(orientation, { x: 20, y: 0, z: -40 })
+    };
+}
+
+
+function tableWidth(column: string): number {
+    return Math.max(column.length, 9);
+}
+
+
+function main(args: string[]): void {
+    let options: CliOptions;
+    try {
+        options = parseArguments(args);
+    } catch (err) {
+        process.stderr.write(`${err.message}\n\n${usage}\n`);
+        process.exitCode = 2;
+        return;
+    }
+
+    if (options.help) {
+        process.stdout.write(`${usage}\n`);
+        return;
+    }
+
+    const subscription = openBus(options)
+        .pipe(mergeMap(bus => new Bno055Cli(options, bus, process.stdout).run()))
+        .subscribe(
+            undefined,
+            (err: Error) => {
+                process.stderr.write(`Error: ${err.message}\n`);
+                process.exitCode = 1;
+            }
+        );
+
+    // the first CTRL-C stops the command and closes the driver; a second one exits immediately
+    process.once("SIGINT", () => subscription.unsubscribe());
+}
+
+
+main(process.argv.slice(2));
@@ -33,6 +33,7 @@ export default {
     ACCEL_DATA_Z_LSB: 0X0C,
     ACCEL_DATA_Z_MSB: 0X0D,
     ACCEL_DATA_LSB_TO_METERS_PER_SECOND_SQUARED_DIVISOR: 100,
+    ACCEL_DATA_LSB_TO_MILLI_G_DIVISOR: 1,
 
     // Mag data register
     MAG_DATA_START: 0X0E,
@@ -53,6 +54,7 @@ export default {
     GYRO_DATA_Z_LSB: 0X18,
     GYRO_DATA_Z_MSB: 0X19,
     GYRO_DATA_LSB_TO_DPS_DIVISOR: 16,
+    GYRO_DATA_LSB_TO_RPS_DIVISOR: 900,
 
     // Euler data registers
     EULER_START: 0X1A,
@@ -63,6 +65,7 @@ export default {
     EULER_P_LSB: 0X1E,
     EULER_P_MSB: 0X1F,
     EULER_DATA_LSB_TO_DEGREES_DIVISOR: 16,
+    EULER_DATA_LSB_TO_RADIANS_DIVISOR: 900,
 
     // Quaternion data registers
     QUATERNION_DATA_START: 0X20,
@@ -85,6 +88,7 @@ export default {
     LINEAR_ACCEL_DATA_Z_LSB: 0X2C,
     LINEAR_ACCEL_DATA_Z_MSB: 0X2D,
     LINEAR_ACCEL_DATA_LSB_TO_METERS_PER_SECOND_SQUARED_DIVISOR: 100,
+    LINEAR_ACCEL_DATA_LSB_TO_MILLI_G_DIVISOR: 1,
 
     // Gravity data registers
     GRAVITY_DATA_START: 0X2E,
@@ -95,9 +99,13 @@ export default {
     GRAVITY_DATA_Z_LSB: 0X32,
     GRAVITY_DATA_Z_MSB: 0X33,
     GRAVITY_DATA_LSB_TO_METERS_PER_SECOND_SQUARED_DIVISOR: 100,
+    GRAVITY_DATA_LSB_TO_MILLI_G_DIVISOR: 1,
 
     // Temperature data register
     TEMP: 0X34,
+    TEMP_DATA_LSB_TO_CELSIUS_DIVISOR: 1,
+    // in Fahrenheit, 1 LSB is 2 degrees, so the reading is multiplied by 2
+    TEMP_DATA_LSB_TO_FAHRENHEIT_DIVISOR: 0.5,
 
     // Status registers
     CALIB_STAT: 0X35,
@@ -108,8 +116,29 @@ export default {
     SYS_STAT: 0X39,
     SYS_ERR: 0X3A,
 
+    // Self test result bits
+    SELFTEST_ACCEL: 0x01,
+    SELFTEST_MAG: 0x02,
+    SELFTEST_GYRO: 0x04,
+    SELFTEST_MCU: 0x08,
+
+    // Interrupt status bits
+    INTR_STAT_GYRO_ANY_MOTION: 0x04,
+    INTR_STAT_GYRO_HIGH_RATE: 0x08,
+    INTR_STAT_ACCEL_HIGH_G: 0x20,
+    INTR_STAT_ACCEL_ANY_MOTION: 0x40,
+    INTR_STAT_ACCEL_NO_MOTION: 0x80,
+
+    // System clock status bits
+    SYS_CLK_STAT_MAIN_CLK: 0x01,
+
     // Unit selection register
     UNIT_SEL: 0X3B,
+    UNIT_SEL_ACCEL_MILLI_G: 0x01,
+    UNIT_SEL_GYRO_RPS: 0x02,
+    UNIT_SEL_EULER_RADIANS: 0x04,
+    UNIT_SEL_TEMP_FAHRENHEIT: 0x10,
+    UNIT_SEL_ORIENTATION_ANDROID: 0x80,
     DATA_SELECT: 0X3C,
 
     // Mode registers
@@ -153,7 +182,7 @@ export default {
     ACCEL_OFFSET_Z_MSB: 0X5A,
 
     // Magnetometer Offset registers
-    MAG_OFFSET_START: 0X55,
+    MAG_OFFSET_START: 0X5B,
     MAG_OFFSET_X_LSB: 0X5B,
     MAG_OFFSET_X_MSB: 0X5C,
     MAG_OFFSET_Y_LSB: 0X5D,
@@ -162,7 +191,7 @@ export default {
     MAG_OFFSET_Z_MSB: 0X60,
 
     // Gyroscope Offset register s
-    GYRO_OFFSET_START: 0X55,
+    GYRO_OFFSET_START: 0X61,
     GYRO_OFFSET_X_LSB: 0X61,
     GYRO_OFFSET_X_MSB: 0X62,
     GYRO_OFFSET_Y_LSB: 0X63,
@@ -176,10 +205,93 @@ export default {
     MAG_RADIUS_LSB: 0X69,
     MAG_RADIUS_MSB: 0X6A,
 
+    // PAGE1 REGISTER DEFINITION START
+    // (the page ID register is at the same address on both pages)
+
+    // Sensor configuration registers
+    ACC_CONFIG: 0X08,
+    MAG_CONFIG: 0X09,
+    GYR_CONFIG_0: 0X0A,
+    GYR_CONFIG_1: 0X0B,
+    ACC_SLEEP_CONFIG: 0X0C,
+    GYR_SLEEP_CONFIG: 0X0D,
+
+    // Sensor configuration reset values and bit positions
+    ACC_CONFIG_DEFAULT: 0X0D,
+    ACC_CONFIG_RANGE_MASK: 0x03,
+    ACC_CONFIG_BANDWIDTH_SHIFT: 2,
+    ACC_CONFIG_BANDWIDTH_MASK: 0x1C,
+    ACC_CONFIG_POWER_MODE_SHIFT: 5,
+    ACC_CONFIG_POWER_MODE_MASK: 0xE0,
+    MAG_CONFIG_DEFAULT: 0X6D,
+    MAG_CONFIG_DATA_RATE_MASK: 0x07,
+    MAG_CONFIG_OPERATION_MODE_SHIFT: 3,
+    MAG_CONFIG_OPERATION_MODE_MASK: 0x18,
+    GYR_CONFIG_0_DEFAULT: 0X38,
+    GYR_CONFIG_0_RANGE_MASK: 0x07,
+    GYR_CONFIG_0_BANDWIDTH_SHIFT: 3,
+    GYR_CONFIG_0_BANDWIDTH_MASK: 0x38,
+
+    // Interrupt registers
+    INT_MSK: 0X0F,
+    INT_EN: 0X10,
+    ACC_AM_THRES: 0X11,
+    ACC_INT_SETTINGS: 0X12,
+    ACC_HG_DURATION: 0X13,
+    ACC_HG_THRES: 0X14,
+    ACC_NM_THRES: 0X15,
+    ACC_NM_SET: 0X16,
+    GYR_INT_SETTING: 0X17,
+    GYR_HR_X_SET: 0X18,
+    GYR_DUR_X: 0X19,
+    GYR_HR_Y_SET: 0X1A,
+    GYR_DUR_Y: 0X1B,
+    GYR_HR_Z_SET: 0X1C,
+    GYR_DUR_Z: 0X1D,
+    GYR_AM_THRES: 0X1E,
+    GYR_AM_SET: 0X1F,
+
+    // Interrupt setting bit positions (the INT_MSK and INT_EN registers use
+    // the same bits as the INTR_STAT register)
+    ACC_INT_SETTINGS_MOTION_AXES_SHIFT: 2,
+    ACC_INT_SETTINGS_HIGH_G_AXES_SHIFT: 5,
+    ACC_NM_SET_NO_MOTION: 0x01,
+    ACC_NM_SET_DURATION_SHIFT: 1,
+    GYR_INT_SETTING_HIGH_RATE_AXES_SHIFT: 3,
+    GYR_INT_SETTING_ANY_MOTION_FILTERED: 0x40,
+    GYR_INT_SETTING_HIGH_RATE_FILTERED: 0x80,
+    GYR_HR_SET_HYSTERESIS_SHIFT: 5,
+    GYR_AM_SET_AWAKE_DURATION_SHIFT: 2,
+
     // I2C addresses
     ADDRESS_A: 0x28,
     ADDRESS_B: 0x29,
 
+    // the most bytes that i2c-bus reads in a single block read
+    I2C_MAX_BLOCK_LENGTH: 32,
+
+    // UART protocol values
+    UART_START_BYTE: 0xAA,
+    UART_WRITE: 0x00,
+    UART_READ: 0x01,
+    UART_RESPONSE_STATUS: 0xEE,
+    UART_RESPONSE_READ: 0xBB,
+    UART_MAX_LENGTH: 128,
+    // the longest response (128 bytes) takes about 12 ms at 115200 baud
+    UART_RESPONSE_TIMEOUT_MS: 100,
+
+    // UART response status codes
+    UART_STATUS_WRITE_SUCCESS: 0x01,
+    UART_STATUS_READ_FAIL: 0x02,
+    UART_STATUS_WRITE_FAIL: 0x03,
+    UART_STATUS_REGMAP_INVALID_ADDRESS: 0x04,
+    UART_STATUS_REGMAP_WRITE_DISABLED: 0x05,
+    UART_STATUS_WRONG_START_BYTE: 0x06,
+    UART_STATUS_BUS_OVER_RUN_ERROR: 0x07,
+    UART_STATUS_MAX_LENGTH_ERROR: 0x08,
+    UART_STATUS_MIN_LENGTH_ERROR: 0x09,
+    UART_STATUS_RECEIVE_CHARACTER_TIMEOUT: 0x0A,
+
     // Power modes
     POWER_MODE_NORMAL: 0X00,
     POWER_MODE_LOWPOWER: 0X01,
@@ -200,12 +312,35 @@ export default {
     OPERATION_MODE_NDOF_FMC_OFF: 0X0B,
     OPERATION_MODE_NDOF: 0X0C,
 
+    // Operation mode switching times (in ms)
+    MODE_SWITCH_TO_CONFIG_DELAY_MS: 19,
+    MODE_SWITCH_FROM_CONFIG_DELAY_MS: 7,
+
     SYSTEM_TRIGGER_RESET: 0x20,
+    SYSTEM_TRIGGER_RESET_INTERRUPT: 0x40,
 
     // Axis remap values
     AXIS_REMAP_X: 0x00,
     AXIS_REMAP_Y: 0x01,
     AXIS_REMAP_Z: 0x02,
     AXIS_REMAP_POSITIVE: 0x00,
-    AXIS_REMAP_NEGATIVE: 0x01
+    AXIS_REMAP_NEGATIVE: 0x01,
+
+    // Axis remap placement presets (configuration and sign register values)
+    AXIS_REMAP_CONFIG_P0: 0x21,
+    AXIS_REMAP_SIGN_P0: 0x04,
+    AXIS_REMAP_CONFIG_P1: 0x24,
+    AXIS_REMAP_SIGN_P1: 0x00,
+    AXIS_REMAP_CONFIG_P2: 0x24,
+    AXIS_REMAP_SIGN_P2: 0x06,
+    AXIS_REMAP_CONFIG_P3: 0x21,
+    AXIS_REMAP_SIGN_P3: 0x02,
+    AXIS_REMAP_CONFIG_P4: 0x24,
+    AXIS_REMAP_SIGN_P4: 0x03,
+    AXIS_REMAP_CONFIG_P5: 0x21,
+    AXIS_REMAP_SIGN_P5: 0x01,
+    AXIS_REMAP_CONFIG_P6: 0x21,
+    AXIS_REMAP_SIGN_P6: 0x07,
+    AXIS_REMAP_CONFIG_P7: 0x24,
+    AXIS_REMAP_SIGN_P7: 0x05
 };
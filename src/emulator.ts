@@ -0,0 +1,398 @@
+/*
+ * src/emulator.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * In-memory emulator of the BNO055 register map for tests and offline
+ * development.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import { Bno055InterruptType, Quaternion, Vector } from "./bno055";
+import constants from "./constants";
+import { Bno055I2cBus } from "./i2cTransport";
+import { quaternionToEuler, rotateToSensorFrame } from "./math";
+
+
+export interface Bno055EmulatorSample {
+    acceleration?: Vector; // m/s^2
+    angularRate?: Vector; // degrees per second
+    magneticField?: Vector; // microtesla
+    orientation?: Quaternion;
+    temperature?: number; // degrees Celsius
+}
+
+
+export type Bno055EmulatorMotion = Bno055EmulatorSample[] | ((time: number) => Bno055EmulatorSample);
+
+
+export type Bno055EmulatorFault = "busError" | "shortRead";
+
+
+export interface Bno055EmulatorOptions {
+    address?: number;
+    bootDelay?: number;
+    calibrationStepInterval?: number;
+    chipId?: number;
+    motion?: Bno055EmulatorMotion;
+    neverBoot?: boolean;
+    resetDelay?: number;
+    sampleInterval?: number;
+    selfTestResult?: number;
+}
+
+
+interface CalibrationLevels {
+    system: number;
+    gyroscope: number;
+    accelerometer: number;
+    magnetometer: number;
+}
+
+
+const standardGravity = 9.80665;
+
+// registers that can be written outside of configuration mode
+const alwaysWritableRegisters = [constants.PAGE_ID, constants.OPR_MODE, constants.PWR_MODE, constants.SYS_TRIGGER];
+
+// registers on page 1 that do not reset to zero (sensor configuration)
+const page1Defaults: { [register: number]: number } = {
+    [constants.ACC_CONFIG]: constants.ACC_CONFIG_DEFAULT,
+    [constants.MAG_CONFIG]: constants.MAG_CONFIG_DEFAULT,
+    [constants.GYR_CONFIG_0]: constants.GYR_CONFIG_0_DEFAULT,
+    [constants.GYR_CONFIG_1]: 0x00
+};
+
+const accelerometerModes = [constants.OPERATION_MODE_ACCONLY, constants.OPERATION_MODE_ACCMAG, constants.OPERATION_MODE_ACCGYRO,
+    constants.OPERATION_MODE_AMG, constants.OPERATION_MODE_IMUPLUS, constants.OPERATION_MODE_COMPASS, constants.OPERATION_MODE_M4G,
+    constants.OPERATION_MODE_NDOF_FMC_OFF, constants.OPERATION_MODE_NDOF];
+const gyroscopeModes = [constants.OPERATION_MODE_GYRONLY, constants.OPERATION_MODE_ACCGYRO, constants.OPERATION_MODE_MAGGYRO,
+    constants.OPERATION_MODE_AMG, constants.OPERATION_MODE_IMUPLUS, constants.OPERATION_MODE_NDOF_FMC_OFF, constants.OPERATION_MODE_NDOF];
+const magnetometerModes = [constants.OPERATION_MODE_MAGONLY, constants.OPERATION_MODE_ACCMAG, constants.OPERATION_MODE_MAGGYRO,
+    constants.OPERATION_MODE_AMG, constants.OPERATION_MODE_COMPASS, constants.OPERATION_MODE_M4G,
+    constants.OPERATION_MODE_NDOF_FMC_OFF, constants.OPERATION_MODE_NDOF];
+const fusionModes = [constants.OPERATION_MODE_IMUPLUS, constants.OPERATION_MODE_COMPASS, constants.OPERATION_MODE_M4G,
+    constants.OPERATION_MODE_NDOF_FMC_OFF, constants.OPERATION_MODE_NDOF];
+
+
+// Node.js 0.10 does not have Buffer.alloc, and newer versions warn that new Buffer is deprecated
+function emptyPage(): Buffer {
+    if (Buffer.alloc) {
+        return Buffer.alloc(0x80);
+    }
+    const page = new Buffer(0x80);
+    page.fill(0);
+    return page;
+}
+
+
+export class Bno055Emulator implements Bno055I2cBus {
+    constructor(options: Bno055EmulatorOptions = {}) {
+        this._address = options.address || constants.ADDRESS_A;
+        this._calibrationStepInterval = options.calibrationStepInterval === undefined ? 200 : options.calibrationStepInterval;
+        this._chipId = options.chipId === undefined ? constants.BNO055_ID : options.chipId;
+        this._motion = options.motion || [{}];
+        this._neverBoot = !!options.neverBoot;
+        this._resetDelay = options.resetDelay === undefined ? 650 : options.resetDelay;
+        this._sampleInterval = options.sampleInterval || 10;
+        this._selfTestResult = options.selfTestResult === undefined ? 0x0F : options.selfTestResult;
+        this._startTime = Date.now();
+
+        this._restoreDefaults();
+        this._bootingUntil = this._startTime + (options.bootDelay || 0);
+    }
+
+
+    injectFault(fault: Bno055EmulatorFault, count: number = 1): void {
+        for (let i = 0; i < count; i++) {
+            this._faults.push(fault);
+        }
+    }
+
+
+    readByte(address: number, command: number, callback: (error: any, result: number) => any): void {
+        this._respond(address, () => {
+            const fault = this._faults.shift();
+            if (fault === "busError") {
+                return callback(new Error("Remote I/O error (injected)"), 0);
+            }
+            this._refreshData(command, 1);
+            callback(null, this._readRegister(command));
+        });
+    }
+
+
+    readI2cBlock(
+        address: number,
+        command: number,
+        length: number,
+        buffer: Buffer,
+        callback: (error: any, bytesRead: number, buffer: Buffer) => any
+    ): void {
+        // the same limit as i2c-bus, which throws before starting the transfer
+        if (length < 0 || length > constants.I2C_MAX_BLOCK_LENGTH) {
+            throw new Error("Invalid buffer length " + length);
+        }
+        this._respond(address, () => {
+            const fault = this._faults.shift();
+            if (fault === "busError") {
+                return callback(new Error("Remote I/O error (injected)"), 0, buffer);
+            }
+
+            const bytesRead = fault === "shortRead" ? Math.max(0, length - 1) : length;
+            this._refreshData(command, bytesRead);
+            for (let i = 0; i < bytesRead; i++) {
+                buffer[i] = this._readRegister(command + i);
+            }
+            callback(null, bytesRead, buffer);
+        });
+    }
+
+
+    setCalibrationStatus(levels: Partial<CalibrationLevels>): void {
+        this._updateCalibration();
+        this._calibration = { ...this._calibration, ...levels };
+    }
+
+
+    triggerInterrupt(interrupt: Bno055InterruptType): void {
+        // only enabled interrupts are latched, and they stay latched until reset through SYS_TRIGGER
+        const bit = interrupt === "accelerometerAnyMotion" ? constants.INTR_STAT_ACCEL_ANY_MOTION
+            : interrupt === "accelerometerHighG" ? constants.INTR_STAT_ACCEL_HIGH_G
+            : interrupt === "gyroscopeAnyMotion" ? constants.INTR_STAT_GYRO_ANY_MOTION
+            : interrupt === "gyroscopeHighRate" ? constants.INTR_STAT_GYRO_HIGH_RATE
+            : constants.INTR_STAT_ACCEL_NO_MOTION;
+        this._page0[constants.INTR_STAT] |= this._page1[constants.INT_EN] & bit;
+    }
+
+
+    writeByte(address: number, command: number, byte: number, callback: (error: any) => any): void {
+        this._respond(address, () => {
+            const fault = this._faults.shift();
+            if (fault === "busError") {
+                return callback(new Error("Remote I/O error (injected)"));
+            }
+            this._writeRegister(command, byte & 0xFF);
+            callback(null);
+        });
+    }
+
+
+    private _currentSample(): Bno055EmulatorSample {
+        const time = Date.now() - this._startTime;
+        if (typeof this._motion === "function") {
+            return this._motion(time);
+        }
+
+        // scripted samples are played at the sample interval, repeating the last one
+        const index = Math.min(Math.floor(time / this._sampleInterval), this._motion.length - 1);
+        return this._motion[index] || {};
+    }
+
+
+    private _readRegister(register: number): number {
+        const page = this._page0[constants.PAGE_ID];
+        if (register === constants.PAGE_ID) {
+            return page;
+        }
+        return (page === 1 ? this._page1[register] : this._page0[register]) || 0;
+    }
+
+
+    private _refreshData(register: number, length: number): void {
+        // the data registers are updated once per read so that a burst read is consistent,
+        // and they are not updated at all while the module is suspended
+        if (this._page0[constants.PAGE_ID] === 0 && this._page0[constants.PWR_MODE] !== constants.POWER_MODE_SUSPEND
+            && register <= constants.SYS_ERR && register + length > constants.ACCEL_DATA_START) {
+            this._updateData();
+        }
+    }
+
+
+    private _respond(address: number, action: () => void): void {
+        // like the real bus, the callback is always called asynchronously
+        setImmediate(() => {
+            // the module does not acknowledge another address or anything while it is booting
+            if (address !== this._address || this._neverBoot || Date.now() < this._bootingUntil) {
+                this._faults.unshift("busError");
+            }
+            action();
+        });
+    }
+
+
+    private _restoreDefaults(): void {
+        this._page0 = emptyPage();
+        this._page1 = emptyPage();
+
+        this._page0[constants.CHIP_ID] = this._chipId;
+        this._page0[constants.ACCEL_REV_ID] = 0xFB;
+        this._page0[constants.MAG_REV_ID] = 0x32;
+        this._page0[constants.GYRO_REV_ID] = 0x0F;
+        this._page0[constants.SW_REV_ID_LSB] = 0x11;
+        this._page0[constants.SW_REV_ID_MSB] = 0x03;
+        this._page0[constants.BL_REV_ID] = 0x15;
+        this._page0[constants.SELFTEST_RESULT] = this._selfTestResult;
+        this._page0[constants.OPR_MODE] = constants.OPERATION_MODE_CONFIG;
+        this._page0[constants.PWR_MODE] = constants.POWER_MODE_NORMAL;
+        this._page0[constants.AXIS_MAP_CONFIG] = constants.AXIS_REMAP_CONFIG_P1;
+        this._page0[constants.AXIS_MAP_SIGN] = constants.AXIS_REMAP_SIGN_P1;
+        this._page1[constants.PAGE_ID] = 1;
+        Object.keys(page1Defaults).forEach(register => {
+            this._page1[Number(register)] = page1Defaults[Number(register)];
+        });
+
+        this._calibration = { system: 0, gyroscope: 0, accelerometer: 0, magnetometer: 0 };
+        this._lastCalibrationUpdate = Date.now();
+    }
+
+
+    private _updateCalibration(): void {
+        const now = Date.now();
+        const mode = this._page0[constants.OPR_MODE];
+        const steps = this._calibrationStepInterval > 0
+            ? Math.floor((now - this._lastCalibrationUpdate) / this._calibrationStepInterval)
+            : 3;
+        if (steps <= 0) {
+            return;
+        }
+        this._lastCalibrationUpdate = now;
+
+        // each sensor that is in use calibrates one level per step
+        const step = (level: number, inUse: boolean) => inUse ? Math.min(3, level + steps) : level;
+        this._calibration.accelerometer = step(this._calibration.accelerometer, accelerometerModes.indexOf(mode) !== -1);
+        this._calibration.gyroscope = step(this._calibration.gyroscope, gyroscopeModes.indexOf(mode) !== -1);
+        this._calibration.magnetometer = step(this._calibration.magnetometer, magnetometerModes.indexOf(mode) !== -1);
+        this._calibration.system = step(this._calibration.system, fusionModes.indexOf(mode) !== -1);
+    }
+
+
+    private _updateData(): void {
+        const mode = this._page0[constants.OPR_MODE];
+        this._updateCalibration();
+        this._page0[constants.CALIB_STAT] = (this._calibration.system << 6) | (this._calibration.gyroscope << 4)
+            | (this._calibration.accelerometer << 2) | this._calibration.magnetometer;
+        this._page0[constants.SYS_STAT] = mode === constants.OPERATION_MODE_CONFIG ? 0
+            : fusionModes.indexOf(mode) !== -1 ? 5
+            : 6;
+
+        if (mode === constants.OPERATION_MODE_CONFIG) {
+            return;
+        }
+
+        const sample = this._currentSample();
+        const unitSelection = this._page0[constants.UNIT_SEL];
+        const zero = { x: 0, y: 0, z: 0 };
+        const orientation = sample.orientation || { w: 1, x: 0, y: 0, z: 0 };
+        const acceleration = this._remap(sample.acceleration || rotateToSensorFrame(orientation, { x: 0, y: 0, z: standardGravity }));
+        const accelerationScale = unitSelection & constants.UNIT_SEL_ACCEL_MILLI_G
+            ? 1000 / standardGravity / constants.ACCEL_DATA_LSB_TO_MILLI_G_DIVISOR
+            : constants.ACCEL_DATA_LSB_TO_METERS_PER_SECOND_SQUARED_DIVISOR;
+        const angularRateScale = unitSelection & constants.UNIT_SEL_GYRO_RPS
+            ? Math.PI / 180 * constants.GYRO_DATA_LSB_TO_RPS_DIVISOR
+            : constants.GYRO_DATA_LSB_TO_DPS_DIVISOR;
+        const angleScale = unitSelection & constants.UNIT_SEL_EULER_RADIANS
+            ? Math.PI / 180 * constants.EULER_DATA_LSB_TO_RADIANS_DIVISOR
+            : constants.EULER_DATA_LSB_TO_DEGREES_DIVISOR;
+        const temperature = sample.temperature === undefined ? 25 : sample.temperature;
+
+        const inMode = (modes: number[]) => modes.indexOf(mode) !== -1;
+        this._writeVector(constants.ACCEL_DATA_START, inMode(accelerometerModes) ? acceleration : zero, accelerationScale);
+        this._writeVector(constants.MAG_DATA_START, inMode(magnetometerModes) ? this._remap(sample.magneticField || zero) : zero,
+            constants.MAG_DATA_LSB_TO_MICRO_TESLA_DIVISOR);
+        this._writeVector(constants.GYRO_DATA_START, inMode(gyroscopeModes) ? this._remap(sample.angularRate || zero) : zero,
+            angularRateScale);
+
+        if (inMode(fusionModes)) {
+            const gravity = rotateToSensorFrame(orientation, { x: 0, y: 0, z: standardGravity });
+            const euler = quaternionToEuler(orientation);
+            // the module measures the heading clockwise, unlike the counterclockwise rotation about Z
+            const heading = (360 - euler.heading) % 360;
+            this._writeVector(constants.EULER_START, { x: heading, y: euler.roll, z: euler.pitch }, angleScale);
+            this._writeInt16(constants.QUATERNION_DATA_W_LSB, orientation.w * constants.QUATERNION_DATA_LSB_TO_DPS_DIVISOR);
+            this._writeVector(constants.QUATERNION_DATA_X_LSB, orientation, constants.QUATERNION_DATA_LSB_TO_DPS_DIVISOR);
+            this._writeVector(constants.LINEAR_ACCEL_DATA_START,
+                { x: acceleration.x - gravity.x, y: acceleration.y - gravity.y, z: acceleration.z - gravity.z }, accelerationScale);
+            this._writeVector(constants.GRAVITY_DATA_START, gravity, accelerationScale);
+        }
+
+        this._page0[constants.TEMP] = Math.round(unitSelection & constants.UNIT_SEL_TEMP_FAHRENHEIT
+            ? (temperature * 9 / 5 + 32) * constants.TEMP_DATA_LSB_TO_FAHRENHEIT_DIVISOR
+            : temperature * constants.TEMP_DATA_LSB_TO_CELSIUS_DIVISOR) & 0xFF;
+    }
+
+
+    private _remap(vector: Vector): Vector {
+        // apply the axis remap registers so that the output matches the mounting
+        const config = this._page0[constants.AXIS_MAP_CONFIG];
+        const sign = this._page0[constants.AXIS_MAP_SIGN];
+        const source = [vector.x, vector.y, vector.z];
+        const axis = (index: number) => source[(config >> (index * 2)) & 0x03] * ((sign >> (2 - index)) & 0x01 ? -1 : 1);
+        return { x: axis(0), y: axis(1), z: axis(2) };
+    }
+
+
+    private _writeInt16(register: number, value: number): void {
+        const int16 = Math.max(-0x8000, Math.min(0x7FFF, Math.round(value)));
+        this._page0[register] = int16 & 0xFF;
+        this._page0[register + 1] = (int16 >> 8) & 0xFF;
+    }
+
+
+    private _writeRegister(register: number, byte: number): void {
+        const mode = this._page0[constants.OPR_MODE];
+        const page = this._page0[constants.PAGE_ID];
+
+        if (register === constants.PAGE_ID) {
+            this._page0[constants.PAGE_ID] = byte & 0x01;
+        } else if (page === 1) {
+            if (mode === constants.OPERATION_MODE_CONFIG) {
+                this._page1[register] = byte;
+            }
+        } else if (register === constants.SYS_TRIGGER) {
+            if (byte & constants.SYSTEM_TRIGGER_RESET_INTERRUPT) {
+                this._page0[constants.INTR_STAT] = 0;
+            }
+            if (byte & constants.SYSTEM_TRIGGER_RESET) {
+                this._restoreDefaults();
+                this._bootingUntil = Date.now() + this._resetDelay;
+            }
+        } else if (register === constants.OPR_MODE) {
+            if (mode === constants.OPERATION_MODE_CONFIG && byte !== mode) {
+                // calibration progresses from the time the module leaves configuration mode
+                this._lastCalibrationUpdate = Date.now();
+            }
+            this._page0[register] = byte & 0x0F;
+        } else if (alwaysWritableRegisters.indexOf(register) !== -1 || mode === constants.OPERATION_MODE_CONFIG) {
+            // the ID, data and status registers are read only
+            if (register > constants.SYS_ERR) {
+                this._page0[register] = byte;
+            }
+        }
+    }
+
+
+    private _writeVector(startRegister: number, vector: Vector, scale: number): void {
+        this._writeInt16(startRegister, vector.x * scale);
+        this._writeInt16(startRegister + 2, vector.y * scale);
+        this._writeInt16(startRegister + 4, vector.z * scale);
+    }
+
+
+    private readonly _address: number;
+    private _bootingUntil: number;
+    private _calibration: CalibrationLevels = { system: 0, gyroscope: 0, accelerometer: 0, magnetometer: 0 };
+    private readonly _calibrationStepInterval: number;
+    private readonly _chipId: number;
+    private readonly _faults: Bno055EmulatorFault[] = [];
+    private _lastCalibrationUpdate: number = Date.now();
+    private readonly _motion: Bno055EmulatorMotion;
+    private readonly _neverBoot: boolean;
+    private _page0: Buffer = emptyPage();
+    private _page1: Buffer = emptyPage();
+    private readonly _resetDelay: number;
+    private readonly _sampleInterval: number;
+    private readonly _selfTestResult: number;
+    private readonly _startTime: number;
+}
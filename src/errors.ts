@@ -0,0 +1,78 @@
+/*
+ * src/errors.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Errors produced by the library for BNO055 I2C absolute orientation sensor.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import { Bno055CalibrationData, Bno055SelfTestResult } from "./bno055";
+
+
+export class Bno055Error extends Error {
+    constructor(message: string) {
+        super(message);
+
+        // restore the prototype chain since Error breaks it when targeting ES5; Node.js 0.10
+        // does not have Object.setPrototypeOf, but the prototype can be set through __proto__
+        if (Object.setPrototypeOf) {
+            Object.setPrototypeOf(this, new.target.prototype);
+        } else {
+            (this as { __proto__?: object }).__proto__ = new.target.prototype;
+        }
+        this.name = new.target.name;
+    }
+}
+
+
+export class Bno055BootTimeoutError extends Bno055Error {
+    constructor(readonly timeout: number) {
+        super(`Could not confirm the Bno055 module boot within ${timeout} ms.`);
+    }
+}
+
+
+export class Bno055ChipIdError extends Bno055Error {
+    constructor(readonly expectedId: number, readonly actualId: number) {
+        super(`Incorrect chip ID (expected: 0x${expectedId.toString(16)}, received: 0x${actualId.toString(16)}).`);
+    }
+}
+
+
+export class Bno055SelfTestError extends Bno055Error {
+    constructor(readonly result: Bno055SelfTestResult, readonly resultByte: number) {
+        super(`Self test failed, got 0x${resultByte.toString(16)} (failed: ${(Object.keys(result) as Array<keyof Bno055SelfTestResult>)
+            .filter(sensor => !result[sensor])
+            .join(", ")}).`);
+    }
+}
+
+
+export class Bno055ShortReadError extends Bno055Error {
+    constructor(readonly register: number, readonly expectedLength: number, readonly bytesRead: number) {
+        super(`Incorrect number of bytes read from register 0x${register.toString(16)} (expected: ${expectedLength}, received: ${bytesRead}).`);
+    }
+}
+
+
+export class Bno055BusError extends Bno055Error {
+    constructor(readonly operation: "read" | "write", readonly register: number, readonly cause: Error | string) {
+        super(`Bus ${operation} of register 0x${register.toString(16)} failed: ${typeof cause === "string" ? cause : cause.message}`);
+    }
+}
+
+
+export class Bno055CalibrationError extends Bno055Error {
+    constructor(readonly problems: string[]) {
+        super(`Invalid calibration data: ${problems.join("; ")}.`);
+    }
+}
+
+
+export class Bno055CalibrationMismatchError extends Bno055Error {
+    constructor(readonly written: Bno055CalibrationData, readonly readBack: Bno055CalibrationData) {
+        super(`Calibration data read back does not match what was written (written: ${JSON.stringify(written)}, read back: ${JSON.stringify(readBack)}).`);
+    }
+}
@@ -0,0 +1,246 @@
+/*
+ * src/filters.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Signal processing operators for BNO055 absolute orientation sensor streams.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import { asyncScheduler, defer as deferObservable, Observable, OperatorFunction, SchedulerLike } from "rxjs";
+import { filter, map } from "rxjs/operators";
+
+import { Quaternion, Vector } from "./bno055";
+import { quaternionNormalize, quaternionSlerp, vectorAdd, vectorNorm, vectorScale } from "./math";
+
+
+export interface Bno055FilterOptions<T> {
+    // produces the time of a sample in milliseconds; defaults to the time it arrives
+    timestamp?: (value: T) => number;
+    // the scheduler whose clock gives arrival times when there is no timestamp function
+    scheduler?: SchedulerLike;
+}
+
+
+interface TimedValue<T> {
+    value: T;
+    time: number;
+}
+
+
+// Each operator keeps its own state for each subscription, so one filtered stream can
+// be subscribed to more than once.  The windows and time constants are in milliseconds
+// and the filters use the time between samples rather than assuming a fixed interval,
+// so late or skipped polling ticks do not distort them.
+
+export function lowPass<T extends Vector | Quaternion>(timeConstant: number, options: Bno055FilterOptions<T> = {}): OperatorFunction<T, T> {
+    // exponential smoothing; quaternions are interpolated along the shorter arc
+    return withState(options, () => {
+        let previous: TimedValue<T> | undefined;
+        return (sample: TimedValue<T>): T => {
+            if (previous) {
+                const weight = smoothingWeight(sample.time - previous.time, timeConstant);
+                const value = isQuaternion(sample.value)
+                    ? withComponents(sample.value, quaternionSlerp(previous.value as Quaternion, sample.value, weight))
+                    : withComponents(sample.value, vectorAdd(vectorScale(previous.value, 1 - weight), vectorScale(sample.value, weight)));
+                sample = { value, time: sample.time };
+            }
+            previous = sample;
+            return sample.value;
+        };
+    });
+}
+
+
+export function highPass<T extends Vector>(timeConstant: number, options: Bno055FilterOptions<T> = {}): OperatorFunction<T, T> {
+    // removes slow changes such as gravity or gyroscope drift; the first output is zero
+    return withState(options, () => {
+        let previousInput: TimedValue<T> | undefined;
+        let previousOutput: Vector = { x: 0, y: 0, z: 0 };
+        return (sample: TimedValue<T>): T => {
+            if (previousInput) {
+                const dt = Math.max(0, sample.time - previousInput.time);
+                const decay = timeConstant / (timeConstant + dt);
+                previousOutput = vectorScale(vectorAdd(previousOutput, vectorDifference(sample.value, previousInput.value)), decay);
+            }
+            previousInput = sample;
+            return withComponents(sample.value, previousOutput);
+        };
+    });
+}
+
+
+export function movingAverage<T extends Vector>(window: number, options: Bno055FilterOptions<T> = {}): OperatorFunction<T, T> {
+    return withWindow(window, options, samples => {
+        const latest = samples[samples.length - 1].value;
+        const sum = timeWeights(samples, window)
+            .reduce((total, weight, index) => vectorAdd(total, vectorScale(samples[index].value, weight)), { x: 0, y: 0, z: 0 });
+        return withComponents(latest, sum);
+    });
+}
+
+
+export function averageQuaternions<T extends Quaternion>(window: number, options: Bno055FilterOptions<T> = {}): OperatorFunction<T, T> {
+    // q and -q are the same orientation, so each quaternion is flipped to the same
+    // hemisphere as the latest before the weighted sum is normalized; this is accurate
+    // for the small spread of orientations in a short window
+    return withWindow(window, options, samples => {
+        const latest = samples[samples.length - 1].value;
+        const sum = timeWeights(samples, window).reduce((total, weight, index) => {
+            const q = samples[index].value;
+            const signedWeight = q.w * latest.w + q.x * latest.x + q.y * latest.y + q.z * latest.z < 0 ? -weight : weight;
+            return {
+                w: total.w + q.w * signedWeight,
+                x: total.x + q.x * signedWeight,
+                y: total.y + q.y * signedWeight,
+                z: total.z + q.z * signedWeight
+            };
+        }, { w: 0, x: 0, y: 0, z: 0 });
+        return withComponents(latest, quaternionNormalize(sum));
+    });
+}
+
+
+export function medianFilter<T extends Vector>(window: number, options: Bno055FilterOptions<T> = {}): OperatorFunction<T, T> {
+    // the median of each component over the window
+    return withWindow(window, options, samples => {
+        const latest = samples[samples.length - 1].value;
+        return withComponents(latest, windowMedian(samples, window));
+    });
+}
+
+
+export function rejectSpikes<T extends Vector>(threshold: number, window: number, options: Bno055FilterOptions<T> = {}): OperatorFunction<T, T> {
+    // drops samples further than the threshold from the median of the window; every
+    // sample is kept in the window, so a lasting change is passed once it fills half
+    // the window
+    return (source: Observable<T>): Observable<T> => source.pipe(
+        withWindow(window, options, samples => {
+            const latest = samples[samples.length - 1].value;
+            return vectorNorm(vectorDifference(latest, windowMedian(samples, window))) <= threshold ? latest : undefined;
+        }),
+        filter((value: T | undefined): value is T => value !== undefined)
+    );
+}
+
+
+export function decimate<T>(factor: number): OperatorFunction<T, T> {
+    // passes the first of every factor samples
+    return filter((_value, index) => index % factor === 0);
+}
+
+
+export function resample<T>(interval: number, options: Bno055FilterOptions<T> = {}): OperatorFunction<T, T> {
+    // passes at most one sample for each interval, choosing the sample closest to
+    // the start of each interval so that the output rate does not drift
+    return (source: Observable<T>): Observable<T> => source.pipe(
+        withState(options, () => {
+            let nextTime: number | undefined;
+            let previousTime: number | undefined;
+            return (sample: TimedValue<T>): T | undefined => {
+                // a sample half a sample period early is closer than the next sample will be
+                const tolerance = previousTime === undefined ? 0 : Math.max(0, sample.time - previousTime) / 2;
+                previousTime = sample.time;
+                if (nextTime !== undefined && sample.time + tolerance < nextTime) {
+                    return undefined;
+                }
+
+                nextTime = nextTime === undefined ? sample.time : nextTime;
+                while (nextTime <= sample.time + tolerance) {
+                    nextTime += interval;
+                }
+                return sample.value;
+            };
+        }),
+        filter((value: T | undefined): value is T => value !== undefined)
+    );
+}
+
+
+function isQuaternion(value: Vector | Quaternion): value is Quaternion {
+    return typeof (value as Quaternion).w === "number";
+}
+
+
+function median(values: number[]): number {
+    const sorted = values.slice().sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+
+function smoothingWeight(dt: number, timeConstant: number): number {
+    // the weight of a new sample after dt milliseconds; a repeated timestamp adds nothing
+    return timeConstant <= 0 ? 1 : 1 - Math.exp(-Math.max(0, dt) / timeConstant);
+}
+
+
+function timeWeights<T>(samples: Array<TimedValue<T>>, window: number): number[] {
+    // the time between each pair of samples (within the window) is shared between
+    // them, so samples count for the time they cover rather than equally; the first
+    // sample may be from before the window, in which case only its share of the time
+    // after the window start counts
+    const start = samples[samples.length - 1].time - window;
+    const weights = samples.map(() => 0);
+    for (let index = 1; index < samples.length; index++) {
+        const share = Math.max(0, samples[index].time - Math.max(samples[index - 1].time, start)) / 2;
+        weights[index - 1] += share;
+        weights[index] += share;
+    }
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (total <= 0) {
+        // with a single sample or only repeated timestamps, the samples are weighted equally
+        return samples.map(() => 1 / samples.length);
+    }
+    return weights.map(weight => weight / total);
+}
+
+
+function vectorDifference(a: Vector, b: Vector): Vector {
+    return vectorAdd(a, vectorScale(b, -1));
+}
+
+
+function windowMedian(samples: Array<TimedValue<Vector>>, window: number): Vector {
+    // the first sample is only in the window if it is not older than the window
+    const start = samples[samples.length - 1].time - window;
+    const inWindow = samples.filter(sample => sample.time >= start);
+    return {
+        x: median(inWindow.map(sample => sample.value.x)),
+        y: median(inWindow.map(sample => sample.value.y)),
+        z: median(inWindow.map(sample => sample.value.z))
+    };
+}
+
+
+function withComponents<T extends Vector | Quaternion>(value: T, components: Vector | Quaternion): T {
+    // the other fields of the value (such as a unit) are kept; spreading compiles to a copy
+    // that works without Object.assign, which Node.js 0.10 does not have
+    return { ...(value as {}), ...(components as {}) } as T;
+}
+
+
+function withState<T, R>(options: Bno055FilterOptions<T>, createStep: () => (sample: TimedValue<T>) => R): OperatorFunction<T, R> {
+    const scheduler = options.scheduler || asyncScheduler;
+    const timestamp = options.timestamp || ((): number => scheduler.now());
+    return (source: Observable<T>): Observable<R> => deferObservable(() => {
+        const step = createStep();
+        return source.pipe(map(value => step({ value, time: timestamp(value) })));
+    });
+}
+
+
+function withWindow<T, R>(window: number, options: Bno055FilterOptions<T>, reduce: (samples: Array<TimedValue<T>>) => R): OperatorFunction<T, R> {
+    // keeps the samples within the window plus the last sample before it
+    return withState(options, () => {
+        const samples: Array<TimedValue<T>> = [];
+        return (sample: TimedValue<T>): R => {
+            samples.push(sample);
+            while (samples.length > 1 && samples[1].time <= sample.time - window) {
+                samples.shift();
+            }
+            return reduce(samples);
+        };
+    });
+}
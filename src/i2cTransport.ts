@@ -0,0 +1,79 @@
+/*
+ * src/i2cTransport.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * I2C transport for BNO055 absolute orientation sensor.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import { I2cBus } from "i2c-bus";
+import { Observable } from "rxjs";
+
+import constants from "./constants";
+import { Bno055BusError, Bno055ShortReadError } from "./errors";
+import { Bno055Transport } from "./transport";
+
+
+// the subset of the I2C bus that is used by the driver
+export type Bno055I2cBus = Pick<I2cBus, "readByte" | "readI2cBlock" | "writeByte">;
+
+
+export class I2cTransport implements Bno055Transport {
+    constructor(private readonly _i2c: Bno055I2cBus, readonly address: number) {
+    }
+
+
+    readByte(register: number): Observable<number> {
+        return new Observable<number>(subscriber => {
+            this._i2c.readByte(this.address, register, (err, byte) => {
+                if (err) {
+                    subscriber.error(new Bno055BusError("read", register, err));
+                } else {
+                    subscriber.next(byte);
+                    subscriber.complete();
+                }
+            });
+        });
+    }
+
+
+    readBytes(register: number, length: number): Observable<Buffer> {
+        // i2c-bus limits block reads to 32 bytes, so longer reads are split into consecutive
+        // block reads; they are all made within this one transaction so nothing runs in between
+        return new Observable<Buffer>(subscriber => {
+            const buffer = new Buffer(length);
+            const readChunk = (offset: number): void => {
+                const chunkLength = Math.min(constants.I2C_MAX_BLOCK_LENGTH, length - offset);
+                const chunk = buffer.slice(offset, offset + chunkLength);
+                this._i2c.readI2cBlock(this.address, register + offset, chunkLength, chunk, (err, bytesRead) => {
+                    if (err) {
+                        subscriber.error(new Bno055BusError("read", register + offset, err));
+                    } else if (bytesRead !== chunkLength) {
+                        subscriber.error(new Bno055ShortReadError(register, length, offset + bytesRead));
+                    } else if (offset + chunkLength < length) {
+                        readChunk(offset + chunkLength);
+                    } else {
+                        subscriber.next(buffer);
+                        subscriber.complete();
+                    }
+                });
+            };
+            readChunk(0);
+        });
+    }
+
+
+    writeByte(register: number, value: number): Observable<never> {
+        return new Observable<never>(subscriber => {
+            this._i2c.writeByte(this.address, register, value, err => {
+                if (err) {
+                    subscriber.error(new Bno055BusError("write", register, err));
+                } else {
+                    subscriber.complete();
+                }
+            });
+        });
+    }
+}
@@ -0,0 +1,236 @@
+/*
+ * src/math.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Orientation math for BNO055 absolute orientation sensor data.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import { EulerAngles, Quaternion, Vector } from "./bno055";
+
+
+// rows of a matrix that rotates from the sensor frame to the world frame
+export type RotationMatrix = [[number, number, number], [number, number, number], [number, number, number]];
+
+
+export interface AxisAngle {
+    axis: Vector;
+    angle: number; // degrees
+}
+
+
+const toDegrees = 180 / Math.PI;
+const toRadians = Math.PI / 180;
+
+// below this, a vector or quaternion is treated as having no direction
+const epsilon = 1e-9;
+
+
+export function vectorAdd(a: Vector, b: Vector): Vector {
+    return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+
+export function vectorScale(v: Vector, scale: number): Vector {
+    return { x: v.x * scale, y: v.y * scale, z: v.z * scale };
+}
+
+
+export function vectorDot(a: Vector, b: Vector): number {
+    return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+
+export function vectorCross(a: Vector, b: Vector): Vector {
+    return {
+        x: a.y * b.z - a.z * b.y,
+        y: a.z * b.x - a.x * b.z,
+        z: a.x * b.y - a.y * b.x
+    };
+}
+
+
+export function vectorNorm(v: Vector): number {
+    return Math.sqrt(vectorDot(v, v));
+}
+
+
+export function vectorNormalize(v: Vector): Vector {
+    const norm = vectorNorm(v);
+    return norm < epsilon ? { x: 0, y: 0, z: 0 } : vectorScale(v, 1 / norm);
+}
+
+
+export function quaternionNormalize(q: Quaternion): Quaternion {
+    const norm = Math.sqrt(q.w * q.w + q.x * q.x + q.y * q.y + q.z * q.z);
+    return norm < epsilon
+        ? { w: 1, x: 0, y: 0, z: 0 }
+        : { w: q.w / norm, x: q.x / norm, y: q.y / norm, z: q.z / norm };
+}
+
+
+export function quaternionConjugate(q: Quaternion): Quaternion {
+    return { w: q.w, x: -q.x, y: -q.y, z: -q.z };
+}
+
+
+export function quaternionMultiply(a: Quaternion, b: Quaternion): Quaternion {
+    // the result applies the rotation b and then the rotation a
+    return {
+        w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+        x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+        y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+        z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w
+    };
+}
+
+
+export function quaternionSlerp(a: Quaternion, b: Quaternion, t: number): Quaternion {
+    // interpolate along the shorter arc, since q and -q are the same orientation
+    let cosine = a.w * b.w + a.x * b.x + a.y * b.y + a.z * b.z;
+    const sign = cosine < 0 ? -1 : 1;
+    cosine *= sign;
+
+    let weightA = 1 - t;
+    let weightB = t;
+    if (cosine < 1 - 1e-6) {
+        // otherwise the orientations are close enough to interpolate linearly
+        const angle = Math.acos(cosine);
+        const sine = Math.sin(angle);
+        weightA = Math.sin((1 - t) * angle) / sine;
+        weightB = Math.sin(t * angle) / sine;
+    }
+    weightB *= sign;
+
+    return quaternionNormalize({
+        w: weightA * a.w + weightB * b.w,
+        x: weightA * a.x + weightB * b.x,
+        y: weightA * a.y + weightB * b.y,
+        z: weightA * a.z + weightB * b.z
+    });
+}
+
+
+export function rotateToWorldFrame(q: Quaternion, v: Vector): Vector {
+    // uses v' = v + w * t + u x t, where u is the vector part of q and t = 2 * (u x v)
+    const u = { x: q.x, y: q.y, z: q.z };
+    const t = vectorScale(vectorCross(u, v), 2);
+    return vectorAdd(vectorAdd(v, vectorScale(t, q.w)), vectorCross(u, t));
+}
+
+
+export function rotateToSensorFrame(q: Quaternion, v: Vector): Vector {
+    return rotateToWorldFrame(quaternionConjugate(q), v);
+}
+
+
+export function relativeOrientation(reference: Quaternion, q: Quaternion): Quaternion {
+    // the orientation of q in the frame of the reference ("zero") orientation
+    return quaternionNormalize(quaternionMultiply(quaternionConjugate(reference), q));
+}
+
+
+// The Euler angles are Tait-Bryan angles in degrees, applied as a rotation by the
+// heading about Z, then by the pitch about Y and then by the roll about X (each
+// counterclockwise when looking down the axis).  The heading is from 0 to 360, the
+// roll from -180 to 180 and the pitch from -90 to 90.
+
+export function quaternionToEuler(q: Quaternion): EulerAngles {
+    const m = quaternionToRotationMatrix(q);
+    const sinPitch = Math.max(-1, Math.min(1, -m[2][0]));
+
+    let heading: number;
+    let roll: number;
+    if (Math.abs(sinPitch) > 1 - 1e-9) {
+        // in gimbal lock only the difference between the heading and roll is known, so
+        // the roll is taken to be zero and the whole rotation about Z is the heading
+        heading = Math.atan2(-m[0][1], m[1][1]);
+        roll = 0;
+    } else {
+        heading = Math.atan2(m[1][0], m[0][0]);
+        roll = Math.atan2(m[2][1], m[2][2]);
+    }
+
+    return {
+        // wrapping with the modulus keeps tiny negative headings from becoming 360
+        heading: (heading * toDegrees + 360) % 360,
+        roll: roll * toDegrees,
+        pitch: Math.asin(sinPitch) * toDegrees
+    };
+}
+
+
+export function eulerToQuaternion(euler: EulerAngles): Quaternion {
+    const ch = Math.cos(euler.heading * toRadians / 2);
+    const sh = Math.sin(euler.heading * toRadians / 2);
+    const cp = Math.cos(euler.pitch * toRadians / 2);
+    const sp = Math.sin(euler.pitch * toRadians / 2);
+    const cr = Math.cos(euler.roll * toRadians / 2);
+    const sr = Math.sin(euler.roll * toRadians / 2);
+
+    return {
+        w: cr * cp * ch + sr * sp * sh,
+        x: sr * cp * ch - cr * sp * sh,
+        y: cr * sp * ch + sr * cp * sh,
+        z: cr * cp * sh - sr * sp * ch
+    };
+}
+
+
+export function quaternionToRotationMatrix(q: Quaternion): RotationMatrix {
+    const { w, x, y, z } = quaternionNormalize(q);
+    return [
+        [1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y)],
+        [2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x)],
+        [2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y)]
+    ];
+}
+
+
+export function rotationMatrixToQuaternion(m: RotationMatrix): Quaternion {
+    // the calculation is based on the largest of w, x, y and z to avoid dividing by a small number
+    const trace = m[0][0] + m[1][1] + m[2][2];
+    if (trace > 0) {
+        const s = 2 * Math.sqrt(1 + trace);
+        return quaternionNormalize({ w: s / 4, x: (m[2][1] - m[1][2]) / s, y: (m[0][2] - m[2][0]) / s, z: (m[1][0] - m[0][1]) / s });
+    } else if (m[0][0] > m[1][1] && m[0][0] > m[2][2]) {
+        const s = 2 * Math.sqrt(1 + m[0][0] - m[1][1] - m[2][2]);
+        return quaternionNormalize({ w: (m[2][1] - m[1][2]) / s, x: s / 4, y: (m[0][1] + m[1][0]) / s, z: (m[0][2] + m[2][0]) / s });
+    } else if (m[1][1] > m[2][2]) {
+        const s = 2 * Math.sqrt(1 + m[1][1] - m[0][0] - m[2][2]);
+        return quaternionNormalize({ w: (m[0][2] - m[2][0]) / s, x: (m[0][1] + m[1][0]) / s, y: s / 4, z: (m[1][2] + m[2][1]) / s });
+    } else {
+        const s = 2 * Math.sqrt(1 + m[2][2] - m[0][0] - m[1][1]);
+        return quaternionNormalize({ w: (m[1][0] - m[0][1]) / s, x: (m[0][2] + m[2][0]) / s, y: (m[1][2] + m[2][1]) / s, z: s / 4 });
+    }
+}
+
+
+export function quaternionToAxisAngle(q: Quaternion): AxisAngle {
+    // q and -q are the same orientation, so the one with the smaller angle is used
+    const normalized = quaternionNormalize(q);
+    const sign = normalized.w < 0 ? -1 : 1;
+    const w = normalized.w * sign;
+    const x = normalized.x * sign;
+    const y = normalized.y * sign;
+    const z = normalized.z * sign;
+    const sine = Math.sqrt(x * x + y * y + z * z);
+    if (sine < epsilon) {
+        return { axis: { x: 1, y: 0, z: 0 }, angle: 0 };
+    }
+
+    return {
+        axis: { x: x / sine, y: y / sine, z: z / sine },
+        angle: 2 * Math.atan2(sine, w) * toDegrees
+    };
+}
+
+
+export function axisAngleToQuaternion(axisAngle: AxisAngle): Quaternion {
+    const axis = vectorNormalize(axisAngle.axis);
+    const halfAngle = axisAngle.angle * toRadians / 2;
+    const sine = Math.sin(halfAngle);
+    return { w: Math.cos(halfAngle), x: axis.x * sine, y: axis.y * sine, z: axis.z * sine };
+}
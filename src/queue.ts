@@ -0,0 +1,114 @@
+/*
+ * src/queue.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Queue that serializes transactions on a shared bus.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import { Observable, Subscription, timer as timerObservable, TimeoutError } from "rxjs";
+
+
+interface QueueEntry {
+    start: () => void;
+}
+
+
+export class TransactionQueue {
+    enqueue<T>(transaction: () => Observable<T>, timeLimit?: number): Observable<T> {
+        // the transaction is queued on subscription and runs once all transactions
+        // queued before it have finished; unsubscribing removes it if it has not started
+        return new Observable<T>(subscriber => {
+            // the time limit covers the time spent waiting in the queue as well as running
+            const timer = timeLimit === undefined ? undefined
+                : timerObservable(timeLimit).subscribe(() => subscriber.error(new TimeoutError()));
+
+            const entry: QueueEntry = {
+                start: () => {
+                    this._transactionCount++;
+
+                    // once started, the transaction is not unsubscribed from, even if the subscriber
+                    // unsubscribes or times out, so that the next one does not start while the transport
+                    // is still using the bus; a transport call that has not returned within the time
+                    // limit is taken to be lost, and the next transaction is started anyway
+                    let active = true;
+                    let hardLimit: Subscription | undefined;
+                    const finish = (): void => {
+                        if (active) {
+                            active = false;
+                            if (hardLimit) {
+                                hardLimit.unsubscribe();
+                            }
+                            this._finishActive();
+                        }
+                    };
+                    if (timeLimit !== undefined) {
+                        hardLimit = timerObservable(timeLimit).subscribe(finish);
+                    }
+                    transaction().subscribe(
+                        value => subscriber.next(value),
+                        err => {
+                            finish();
+                            subscriber.error(err);
+                        },
+                        () => {
+                            finish();
+                            subscriber.complete();
+                        }
+                    );
+                }
+            };
+
+            this._pending.push(entry);
+            this._runNext();
+
+            return () => {
+                if (timer) {
+                    timer.unsubscribe();
+                }
+                this._remove(entry);
+            };
+        });
+    }
+
+
+    get pendingCount(): number {
+        return this._pending.length;
+    }
+
+
+    get transactionCount(): number {
+        return this._transactionCount;
+    }
+
+
+    private _finishActive(): void {
+        this._active = undefined;
+        this._runNext();
+    }
+
+
+    private _remove(entry: QueueEntry): void {
+        // an active entry is finished by its transaction rather than removed
+        const index = this._pending.indexOf(entry);
+        if (index !== -1) {
+            this._pending.splice(index, 1);
+        }
+    }
+
+
+    private _runNext(): void {
+        const next = this._active ? undefined : this._pending.shift();
+        if (next) {
+            this._active = next;
+            next.start();
+        }
+    }
+
+
+    private _active?: QueueEntry;
+    private readonly _pending: QueueEntry[] = [];
+    private _transactionCount: number = 0;
+}
@@ -0,0 +1,276 @@
+/*
+ * src/recording.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Recording and replay of streams from the BNO055 absolute orientation
+ * sensor.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import { readFileSync } from "fs";
+import { Observable, concat as concatObservable, defer as deferObservable, from as fromObservable, merge as mergeObservable, of as ofObservable, timer as timerObservable } from "rxjs";
+import { concatMap, filter, ignoreElements, map, mapTo, tap } from "rxjs/operators";
+
+import {
+    Bno055AccelerationUnit,
+    Bno055AngularRateUnit,
+    Bno055CalibrationStatus,
+    Bno055DeviceInfo,
+    Bno055Driver,
+    Bno055MagneticFieldUnit,
+    Bno055Mode,
+    Quaternion,
+    Vector,
+    WithUnit
+} from "./bno055";
+import { Bno055Error } from "./errors";
+
+
+// the part of the driver that is recorded, and that can be replayed
+export type Bno055StreamSource = Pick<Bno055Driver, "mode" | "getDeviceInfo" | "streamAccelerometer" | "streamCalibrationStatus"
+    | "streamGyroscope" | "streamMagnometer" | "streamQuaternions">;
+
+
+export type Bno055RecordedStream = "accelerometer" | "gyroscope" | "magnetometer" | "quaternion" | "calibrationStatus";
+
+
+export type Bno055RecordingFormat = "ndjson" | "csv";
+
+
+export interface Bno055RecordingHeader {
+    version: number;
+    startTime: string;
+    mode: Bno055Mode;
+    device: Bno055DeviceInfo;
+    streams: Bno055RecordedStream[];
+    interval: number;
+}
+
+
+export interface Bno055RecordedSample {
+    time: number;
+    stream: Bno055RecordedStream;
+    value: (Vector & Partial<WithUnit<string>>) | Quaternion | Bno055CalibrationStatus;
+}
+
+
+export interface Bno055Recording {
+    header: Bno055RecordingHeader;
+    samples: Bno055RecordedSample[];
+}
+
+
+export interface Bno055RecorderOptions {
+    streams: Bno055RecordedStream[];
+    format?: Bno055RecordingFormat;
+    interval?: number;
+}
+
+
+export interface Bno055ReplayOptions {
+    // a multiplier on the original speed, or "max" to replay as fast as possible
+    speed?: number | "max";
+}
+
+
+const recordingVersion = 1;
+const csvColumns = ["time", "stream", "unit", "w", "x", "y", "z", "system", "gyroscope", "accelerometer", "magnetometer"];
+
+
+export class Bno055Recorder {
+    constructor(private readonly _driver: Bno055StreamSource, options: Bno055RecorderOptions) {
+        this._streams = options.streams;
+        this._format = options.format || "ndjson";
+        this._interval = options.interval || 100;
+    }
+
+
+    record(output: NodeJS.WritableStream): Observable<Bno055RecordedSample> {
+        return deferObservable(() => {
+            let startTime = 0;
+            return concatObservable(
+                this._driver.getDeviceInfo()
+                    .pipe(
+                        tap(device => {
+                            startTime = Date.now();
+                            output.write(this._formatHeader({
+                                version: recordingVersion,
+                                startTime: new Date(startTime).toISOString(),
+                                mode: this._driver.mode,
+                                device,
+                                streams: this._streams,
+                                interval: this._interval
+                            }));
+                        }),
+                        ignoreElements()
+                    ),
+                mergeObservable(...this._streams.map(stream => this._createStream(stream)
+                    .pipe(
+                        map(value => ({ time: Date.now() - startTime, stream, value }))
+                    )))
+            ).pipe(
+                tap(sample => output.write(this._formatSample(sample)))
+            );
+        });
+    }
+
+
+    private _createStream(stream: Bno055RecordedStream): Observable<Bno055RecordedSample["value"]> {
+        switch (stream) {
+            case "accelerometer":
+                return this._driver.streamAccelerometer(this._interval);
+            case "gyroscope":
+                return this._driver.streamGyroscope(this._interval);
+            case "magnetometer":
+                return this._driver.streamMagnometer(this._interval);
+            case "quaternion":
+                return this._driver.streamQuaternions(this._interval);
+            default:
+                return this._driver.streamCalibrationStatus(this._interval);
+        }
+    }
+
+
+    private _formatHeader(header: Bno055RecordingHeader): string {
+        return this._format === "csv"
+            ? `# ${JSON.stringify(header)}\n${csvColumns.join(",")}\n`
+            : `${JSON.stringify(header)}\n`;
+    }
+
+
+    private _formatSample(sample: Bno055RecordedSample): string {
+        if (this._format !== "csv") {
+            return `${JSON.stringify(sample)}\n`;
+        }
+
+        const fields: { [column: string]: number | string | undefined } = { time: sample.time, stream: sample.stream, ...sample.value };
+        return csvColumns.map(column => fields[column] === undefined ? "" : fields[column]).join(",") + "\n";
+    }
+
+
+    private readonly _format: Bno055RecordingFormat;
+    private readonly _interval: number;
+    private readonly _streams: Bno055RecordedStream[];
+}
+
+
+export class Bno055Replay implements Bno055StreamSource {
+    constructor(readonly recording: Bno055Recording, options: Bno055ReplayOptions = {}) {
+        this._speed = options.speed || 1;
+    }
+
+
+    get mode(): Bno055Mode {
+        return this.recording.header.mode;
+    }
+
+
+    getDeviceInfo(): Observable<Bno055DeviceInfo> {
+        return ofObservable(this.recording.header.device);
+    }
+
+
+    // the intervals are only accepted for compatibility; samples are replayed with their recorded timing
+    streamAccelerometer(interval?: number): Observable<Vector & WithUnit<Bno055AccelerationUnit>> {
+        return this._replay("accelerometer") as Observable<Vector & WithUnit<Bno055AccelerationUnit>>;
+    }
+
+
+    streamCalibrationStatus(interval?: number): Observable<Bno055CalibrationStatus> {
+        return this._replay("calibrationStatus") as Observable<Bno055CalibrationStatus>;
+    }
+
+
+    streamGyroscope(interval?: number): Observable<Vector & WithUnit<Bno055AngularRateUnit>> {
+        return this._replay("gyroscope") as Observable<Vector & WithUnit<Bno055AngularRateUnit>>;
+    }
+
+
+    streamMagnometer(interval?: number): Observable<Vector & WithUnit<Bno055MagneticFieldUnit>> {
+        return this._replay("magnetometer") as Observable<Vector & WithUnit<Bno055MagneticFieldUnit>>;
+    }
+
+
+    streamQuaternions(interval?: number): Observable<Quaternion> {
+        return this._replay("quaternion") as Observable<Quaternion>;
+    }
+
+
+    static load(path: string, options?: Bno055ReplayOptions): Bno055Replay {
+        return new Bno055Replay(Bno055Replay.parse(readFileSync(path, "utf8")), options);
+    }
+
+
+    static parse(content: string): Bno055Recording {
+        const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+        if (lines.length === 0) {
+            throw new Bno055Error("The recording is empty.");
+        }
+
+        // CSV recordings start with the header as a comment, followed by the column names
+        if (lines[0].charAt(0) === "#") {
+            const columns = lines[1].split(",");
+            return {
+                header: JSON.parse(lines[0].substr(1)),
+                samples: lines.slice(2).map(line => Bno055Replay._parseCsvSample(columns, line.split(",")))
+            };
+        }
+
+        return {
+            header: JSON.parse(lines[0]),
+            samples: lines.slice(1).map(line => JSON.parse(line))
+        };
+    }
+
+
+    private _replay(stream: Bno055RecordedStream): Observable<Bno055RecordedSample["value"]> {
+        const samples = fromObservable(this.recording.samples)
+            .pipe(
+                filter(sample => sample.stream === stream)
+            );
+
+        if (this._speed === "max") {
+            return samples.pipe(map(sample => sample.value));
+        }
+
+        // each sample is delayed relative to the start of the replay
+        const speed = this._speed;
+        return deferObservable(() => {
+            const startTime = Date.now();
+            return samples.pipe(
+                concatMap(sample => timerObservable(Math.max(0, startTime + sample.time / speed - Date.now()))
+                    .pipe(
+                        mapTo(sample.value)
+                    ))
+            );
+        });
+    }
+
+
+    private static _parseCsvSample(columns: string[], values: string[]): Bno055RecordedSample {
+        const fields: { [column: string]: string } = {};
+        columns.forEach((column, index) => {
+            if (values[index] !== undefined && values[index] !== "") {
+                fields[column] = values[index];
+            }
+        });
+
+        const value: { [name: string]: string | number } = {};
+        Object.keys(fields)
+            .filter(column => column !== "time" && column !== "stream")
+            .forEach(column => {
+                value[column] = column === "unit" ? fields[column] : Number(fields[column]);
+            });
+
+        return {
+            time: Number(fields.time),
+            stream: fields.stream as Bno055RecordedStream,
+            value: value as Bno055RecordedSample["value"]
+        };
+    }
+
+
+    private readonly _speed: number | "max";
+}
@@ -0,0 +1,25 @@
+/*
+ * src/transport.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Transport used to access the registers of the BNO055 absolute orientation
+ * sensor.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import { Observable } from "rxjs";
+
+
+export interface Bno055Transport {
+    // the I2C address of the module, if the transport uses one
+    readonly address?: number;
+
+    readByte(register: number): Observable<number>;
+    readBytes(register: number, length: number): Observable<Buffer>;
+    writeByte(register: number, value: number): Observable<never>;
+
+    // releases anything the transport holds on to once the driver is closed
+    close?(): void;
+}
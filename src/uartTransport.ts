@@ -0,0 +1,186 @@
+/*
+ * src/uartTransport.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * UART (serial) transport for BNO055 absolute orientation sensor.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import { Observable, concat as concatObservable, empty as emptyObservable, throwError as throwObservable } from "rxjs";
+import { map, mergeMap, toArray } from "rxjs/operators";
+import { Duplex } from "stream";
+
+import constants from "./constants";
+import { Bno055BusError, Bno055ShortReadError } from "./errors";
+import { TransactionQueue } from "./queue";
+import { Bno055Transport } from "./transport";
+
+
+interface UartResponse {
+    status?: number;
+    data?: Buffer;
+}
+
+
+type ResponseHandler = (response: UartResponse) => void;
+
+
+// indexed by the status code of a UART status response
+const statusDescriptions = ["unknown status", "write success", "read fail", "write fail", "invalid register address",
+    "register write disabled", "wrong start byte", "bus over run error", "maximum length error",
+    "minimum length error", "receive character timeout"];
+
+
+// Node.js 0.10 does not have Buffer.from, and newer versions warn that new Buffer is deprecated
+function toBuffer(bytes: number[]): Buffer {
+    return Buffer.alloc ? Buffer.from(bytes) : new Buffer(bytes);
+}
+
+
+export class UartTransport implements Bno055Transport {
+    constructor(private readonly _stream: Duplex, private readonly _responseTimeout: number = constants.UART_RESPONSE_TIMEOUT_MS) {
+        this._stream.on("data", this._dataListener);
+    }
+
+
+    close(): void {
+        // the stream belongs to the caller, so it is only detached (and not ended)
+        this._stream.removeListener("data", this._dataListener);
+    }
+
+
+    readByte(register: number): Observable<number> {
+        return this.readBytes(register, 1)
+            .pipe(
+                map(buffer => buffer[0])
+            );
+    }
+
+
+    readBytes(register: number, length: number): Observable<Buffer> {
+        // reads longer than the protocol allows are split into several read commands
+        const chunks: Array<Observable<Buffer>> = [];
+        for (let offset = 0; offset < length; offset += constants.UART_MAX_LENGTH) {
+            chunks.push(this._readChunk(register + offset, Math.min(constants.UART_MAX_LENGTH, length - offset)));
+        }
+
+        return concatObservable(...chunks)
+            .pipe(
+                toArray(),
+                map(buffers => Buffer.concat(buffers))
+            );
+    }
+
+
+    writeByte(register: number, value: number): Observable<never> {
+        const command = toBuffer([constants.UART_START_BYTE, constants.UART_WRITE, register, 1, value]);
+        return this._sendCommand("write", register, command)
+            .pipe(
+                mergeMap(response => response.status === constants.UART_STATUS_WRITE_SUCCESS
+                    ? emptyObservable()
+                    : throwObservable(UartTransport._responseError("write", register, response)))
+            );
+    }
+
+
+    private _onData(data: Buffer): void {
+        this._received = Buffer.concat([this._received, data]);
+
+        const response = this._parseResponse();
+        if (response && this._responseHandler) {
+            this._responseHandler(response);
+        }
+    }
+
+
+    private _parseResponse(): UartResponse | undefined {
+        // discard anything that cannot be the start of a response
+        let start = 0;
+        while (start < this._received.length
+            && this._received[start] !== constants.UART_RESPONSE_STATUS
+            && this._received[start] !== constants.UART_RESPONSE_READ) {
+            start++;
+        }
+        this._received = this._received.slice(start);
+
+        // both kinds of response have a header byte followed by a status or length byte
+        if (this._received.length < 2) {
+            return undefined;
+        }
+
+        if (this._received[0] === constants.UART_RESPONSE_STATUS) {
+            const status = this._received[1];
+            this._received = this._received.slice(2);
+            return { status };
+        }
+
+        const length = this._received[1];
+        if (this._received.length < 2 + length) {
+            return undefined;
+        }
+        const data = this._received.slice(2, 2 + length);
+        this._received = this._received.slice(2 + length);
+        return { data };
+    }
+
+
+    private _readChunk(register: number, length: number): Observable<Buffer> {
+        const command = toBuffer([constants.UART_START_BYTE, constants.UART_READ, register, length]);
+        return this._sendCommand("read", register, command)
+            .pipe(
+                mergeMap(response => !response.data
+                    ? throwObservable(UartTransport._responseError("read", register, response))
+                    : response.data.length !== length
+                    ? throwObservable(new Bno055ShortReadError(register, length, response.data.length))
+                    : [response.data])
+            );
+    }
+
+
+    private _sendCommand(operation: "read" | "write", register: number, command: Buffer): Observable<UartResponse> {
+        // only one command can be outstanding since responses do not identify their command
+        return this._queue.enqueue(() => new Observable<UartResponse>(subscriber => {
+            // anything received before the command was sent cannot be its response
+            this._received = toBuffer([]);
+            const handler: ResponseHandler = response => {
+                this._responseHandler = undefined;
+                subscriber.next(response);
+                subscriber.complete();
+            };
+            this._responseHandler = handler;
+
+            // the module does not reply while it is resetting and a reply can be lost, so the command
+            // is given up on (freeing the queue for the next one) if no reply arrives in time
+            const timer = setTimeout(() => subscriber.error(new Bno055BusError(operation, register,
+                `no response after ${this._responseTimeout} ms`)), this._responseTimeout);
+
+            this._stream.write(command, (err?: Error) => {
+                if (err) {
+                    subscriber.error(new Bno055BusError(operation, register, err));
+                }
+            });
+
+            return () => {
+                clearTimeout(timer);
+                // the next command may already have started when this one is torn down
+                if (this._responseHandler === handler) {
+                    this._responseHandler = undefined;
+                }
+            };
+        }));
+    }
+
+
+    private static _responseError(operation: "read" | "write", register: number, response: UartResponse): Bno055BusError {
+        const status = response.status || 0;
+        return new Bno055BusError(operation, register, `status 0x${status.toString(16)} (${statusDescriptions[status] || statusDescriptions[0]})`);
+    }
+
+
+    private readonly _dataListener = (data: Buffer) => this._onData(data);
+    private readonly _queue = new TransactionQueue();
+    private _received = toBuffer([]);
+    private _responseHandler?: ResponseHandler;
+}
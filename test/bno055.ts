@@ -0,0 +1,137 @@
+/*
+ * test/bno055.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Tests of the register conversions and calibration data handling.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import * as assert from "assert";
+import { existsSync, mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { Bno055CalibrationData, Bno055CalibrationMismatchError, Bno055Driver, Bno055Emulator } from "../index";
+import { fromInt16, int16ToLsb, int16ToMsb } from "../src/bno055";
+import constants from "../src/constants";
+
+
+const calibrationData: Bno055CalibrationData = {
+    accelerometerOffset: { x: -16000, y: -1, z: 16000 },
+    accelerometerRadius: 1000,
+    gyroscopeOffset: { x: -32000, y: 0, z: 32000 },
+    magnetometerOffset: { x: -6400, y: 255, z: 256 },
+    magnetometerRadius: 700
+};
+
+
+describe("int16 conversions", () => {
+    const cases: Array<[number, number, number]> = [
+        [-32768, 0x00, 0x80],
+        [-1, 0xFF, 0xFF],
+        [0, 0x00, 0x00],
+        [1, 0x01, 0x00],
+        [32767, 0xFF, 0x7F]
+    ];
+
+    cases.forEach(([value, lsb, msb]) => {
+        it(`splits ${value} into bytes and joins them again`, () => {
+            assert.strictEqual(int16ToLsb(value), lsb);
+            assert.strictEqual(int16ToMsb(value), msb);
+            assert.strictEqual(fromInt16((msb << 8) | lsb), value);
+        });
+    });
+});
+
+
+describe("calibration data", function (): void {
+    this.timeout(5000);
+
+    let driver: Bno055Driver | undefined;
+
+    afterEach(() => {
+        const closing = driver ? driver.close().toPromise() : Promise.resolve();
+        driver = undefined;
+        return closing;
+    });
+
+
+    it("reads back the calibration data that was written", () => {
+        const emulator = new Bno055Emulator({ resetDelay: 10, calibrationStepInterval: 0 });
+        const bno055 = driver = new Bno055Driver({ i2c: emulator, mode: "ndof", calibrationData });
+        return bno055.init().toPromise()
+            .then(() => bno055.getCalibrationData().toPromise())
+            .then(readBack => assert.deepStrictEqual(readBack, calibrationData));
+    });
+
+
+    it("returns to the operating mode after waiting for calibration", () => {
+        const emulator = new Bno055Emulator({ resetDelay: 10, calibrationStepInterval: 0 });
+        const bno055 = driver = new Bno055Driver({ i2c: emulator, mode: "ndof", calibrationData });
+        return bno055.init().toPromise()
+            .then(() => bno055.getCalibrationData().toPromise())
+            .then(() => readRegister(emulator, constants.OPR_MODE))
+            .then(modeByte => {
+                assert.strictEqual(modeByte, constants.OPERATION_MODE_NDOF);
+                assert.strictEqual(bno055.mode, "ndof");
+            });
+    });
+
+
+    it("returns to the operating mode after saving the calibration profile", () => {
+        const emulator = new Bno055Emulator({ resetDelay: 10, calibrationStepInterval: 0 });
+        const calibrationProfile = join(mkdtempSync(join(tmpdir(), "bno055-")), "calibration.json");
+        const bno055 = driver = new Bno055Driver({ i2c: emulator, mode: "ndof", calibrationProfile, autoSaveCalibration: true });
+        const subscription = bno055.streamQuaternions(20).subscribe();
+        return waitFor(() => existsSync(calibrationProfile))
+            .then(() => new Promise(resolve => setTimeout(resolve, 100)))
+            .then(() => readRegister(emulator, constants.OPR_MODE))
+            .then(modeByte => {
+                subscription.unsubscribe();
+                assert.strictEqual(modeByte, constants.OPERATION_MODE_NDOF);
+            });
+    });
+
+
+    it("fails when the calibration data does not read back the same", () => {
+        // a bus that changes one of the calibration bytes as it is written
+        const emulator = new Bno055Emulator({ resetDelay: 10 });
+        const corruptingBus = {
+            readByte: emulator.readByte.bind(emulator),
+            readI2cBlock: emulator.readI2cBlock.bind(emulator),
+            writeByte: (address: number, command: number, byte: number, callback: (error: any) => any): void =>
+                emulator.writeByte(address, command, command === constants.MAG_RADIUS_LSB ? byte ^ 0x01 : byte, callback)
+        };
+        const bno055 = driver = new Bno055Driver({ i2c: corruptingBus, mode: "ndof", calibrationData });
+        return bno055.init().toPromise().then(
+            () => assert.fail("the initialization should have failed"),
+            err => {
+                assert.ok(err instanceof Bno055CalibrationMismatchError, `unexpected error ${err}`);
+                assert.deepStrictEqual(err.written, calibrationData);
+                assert.strictEqual(err.readBack.magnetometerRadius, calibrationData.magnetometerRadius ^ 0x01);
+            }
+        );
+    });
+});
+
+
+function readRegister(emulator: Bno055Emulator, register: number): Promise<number> {
+    return new Promise<number>((resolve, reject) =>
+        emulator.readByte(0x28, register, (err, byte) => err ? reject(err) : resolve(byte)));
+}
+
+
+function waitFor(condition: () => boolean): Promise<void> {
+    return new Promise<void>(resolve => {
+        const check = (): void => {
+            if (condition()) {
+                resolve();
+            } else {
+                setTimeout(check, 10);
+            }
+        };
+        check();
+    });
+}
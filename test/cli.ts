@@ -0,0 +1,70 @@
+/*
+ * test/cli.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Tests of the command-line tool, run against the emulator.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import * as assert from "assert";
+import { execFile } from "child_process";
+import { join } from "path";
+
+
+interface CliResult {
+    exitCode: number;
+    stdout: string;
+    stderr: string;
+}
+
+
+function runCli(args: string[]): Promise<CliResult> {
+    // the tool runs as soon as it is loaded, so it is run in its own process; it has already
+    // been type checked along with the tests, so it is only transpiled
+    const env = Object.assign({}, process.env, { TS_NODE_TRANSPILE_ONLY: "true" });
+    return new Promise(resolve => {
+        execFile(process.execPath, ["--require", "ts-node/register", join(__dirname, "../src/cli.ts")].concat(args), { env },
+            (err: (Error & { code?: number }) | null, stdout, stderr) => resolve({ exitCode: err ? Number(err.code) : 0, stdout, stderr }));
+    });
+}
+
+
+describe("bno055 command-line tool", function (): void {
+    this.timeout(20000);
+
+    it("streams every sensor from the simulated module", () => {
+        const sensors = ["accelerometer", "euler", "gravity", "gyroscope", "linearAcceleration", "magnetometer", "quaternion", "temperature"];
+        return runCli(["stream", "--simulate", "--skip-calibration", "--format", "json", "--interval", "20", "--count", "3",
+            "--sensors", sensors.join(",")]).then(result => {
+            assert.strictEqual(result.stderr, "");
+            assert.strictEqual(result.exitCode, 0);
+            const lines = result.stdout.trim().split("\n").map(line => JSON.parse(line));
+            assert.strictEqual(lines.length, 3);
+            lines.forEach(line => sensors.forEach(sensor => assert.ok(line[sensor], `${sensor} is missing from ${JSON.stringify(line)}`)));
+        });
+    });
+
+    it("shows the acceleration with each orientation, closing each driver before starting the next", () => {
+        return runCli(["remap", "P0", "P1", "P2", "--simulate", "--debug"]).then(result => {
+            assert.strictEqual(result.exitCode, 0);
+            const lines = result.stdout.trim().split("\n");
+            assert.strictEqual(lines.length, 4);
+            ["P0", "P1", "P2"].forEach((orientation, index) => assert.strictEqual(lines[index + 1].indexOf(orientation), 0));
+
+            // the debugging output shows each driver being created and suspending the module as it closes
+            const events = result.stderr.split("\n")
+                .filter(line => /Address is|mode to suspend/.test(line))
+                .map(line => /Address is/.test(line) ? "create" : "suspend");
+            assert.deepStrictEqual(events, ["create", "suspend", "create", "suspend", "create", "suspend"]);
+        });
+    });
+
+    it("exits with a usage error for an unknown command", () => {
+        return runCli(["unknown"]).then(result => {
+            assert.strictEqual(result.exitCode, 2);
+            assert.ok(/Unknown command: unknown/.test(result.stderr));
+        });
+    });
+});
@@ -0,0 +1,163 @@
+/*
+ * test/emulator.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * End-to-end tests of the driver against the BNO055 emulator.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import * as assert from "assert";
+import { skip, take, toArray } from "rxjs/operators";
+
+import { Bno055BootTimeoutError, Bno055ChipIdError, Bno055Driver, Bno055Emulator, Bno055ShortReadError, Quaternion } from "../index";
+
+
+// a rotation of 30 degrees counterclockwise about Z, which is a heading of 330 degrees
+const rotated: Quaternion = { w: Math.cos(Math.PI / 12), x: 0, y: 0, z: Math.sin(Math.PI / 12) };
+
+
+describe("Bno055Driver with the emulator", function (): void {
+    this.timeout(5000);
+
+    let driver: Bno055Driver | undefined;
+
+    afterEach(() => {
+        const closing = driver ? driver.close().toPromise() : Promise.resolve();
+        driver = undefined;
+        return closing;
+    });
+
+    function createDriver(emulator: Bno055Emulator, overrides: { bootTimeout?: number } = {}): Bno055Driver {
+        driver = new Bno055Driver(Object.assign({ i2c: emulator, mode: "ndof" as "ndof" }, overrides));
+        return driver;
+    }
+
+
+    it("boots and reads the device information", () => {
+        const bno055 = createDriver(new Bno055Emulator({ resetDelay: 10 }));
+        return bno055.getDeviceInfo().toPromise().then(info => {
+            assert.strictEqual(info.chipId, 0xA0);
+            assert.strictEqual(info.softwareRevision, 0x0311);
+        });
+    });
+
+
+    it("reads the same heading from the Euler angles as from the quaternion", () => {
+        const bno055 = createDriver(new Bno055Emulator({ resetDelay: 10, motion: [{ orientation: rotated }] }));
+        return Promise.all([
+            bno055.readEuler(),
+            bno055.streamHeadings(10).pipe(take(1)).toPromise()
+        ]).then(([euler, heading]) => {
+            assert.ok(Math.abs(euler.heading - 330) < 0.1, `Euler heading was ${euler.heading}`);
+            assert.ok(Math.abs(heading - 330) < 0.1, `streamed heading was ${heading}`);
+        });
+    });
+
+
+    it("streams all of the data with reads split to the bus limit", () => {
+        const bno055 = createDriver(new Bno055Emulator({ resetDelay: 10, motion: [{ orientation: rotated }] }));
+        return bno055.streamAll(10).pipe(take(1)).toPromise().then(snapshot => {
+            assert.ok(snapshot.quaternion && Math.abs(snapshot.quaternion.z - rotated.z) < 0.001);
+            assert.ok(snapshot.temperature && snapshot.temperature.value === 25);
+        });
+    });
+
+
+    it("reads the temperature in Fahrenheit", () => {
+        const emulator = new Bno055Emulator({ resetDelay: 10, motion: [{ temperature: 30 }] });
+        const bno055 = driver = new Bno055Driver({ i2c: emulator, mode: "ndof", units: { temperature: "fahrenheit" } });
+        return bno055.readTemperature().then(temperature => assert.deepStrictEqual(temperature, { value: 86, unit: "fahrenheit" }));
+    });
+
+
+    it("reports an injected fault when there is no recovery", () => {
+        const emulator = new Bno055Emulator({ resetDelay: 10 });
+        const bno055 = createDriver(emulator);
+        return bno055.init().toPromise()
+            .then(() => {
+                emulator.injectFault("shortRead");
+                return bno055.readQuaternion();
+            })
+            .then(
+                () => assert.fail("the read should have failed"),
+                err => assert.ok(err instanceof Bno055ShortReadError, `unexpected error ${err}`)
+            );
+    });
+
+
+    it("recovers from injected faults", () => {
+        const emulator = new Bno055Emulator({ resetDelay: 10 });
+        const bno055 = new Bno055Driver({ i2c: emulator, mode: "ndof", recovery: { maxConsecutiveErrors: 2 } });
+        driver = bno055;
+        return bno055.init().toPromise()
+            .then(() => {
+                emulator.injectFault("busError", 3);
+                return bno055.streamQuaternions(10).pipe(skip(1), take(3), toArray()).toPromise();
+            })
+            .then(quaternions => assert.strictEqual(quaternions.length, 3));
+    });
+
+
+    it("stops polling when an iterator is returned", () => {
+        const bno055 = createDriver(new Bno055Emulator({ resetDelay: 10, motion: [{ orientation: rotated }] }));
+        const eulerAngles = bno055.eulerAngles({ interval: 10 });
+        return eulerAngles.next()
+            .then(result => {
+                assert.strictEqual(result.done, false);
+                assert.ok(Math.abs(result.value.heading - 330) < 0.1, `Euler heading was ${result.value.heading}`);
+                return eulerAngles.return ? eulerAngles.return() : Promise.reject(new Error("no return method"));
+            })
+            .then(result => {
+                assert.strictEqual(result.done, true);
+                const transactions = bno055.getBusStatistics().transactions;
+                return new Promise(resolve => setTimeout(resolve, 50))
+                    .then(() => assert.strictEqual(bno055.getBusStatistics().transactions, transactions));
+            });
+    });
+
+
+    it("continues streaming when suspending is unsubscribed from", () => {
+        const bno055 = createDriver(new Bno055Emulator({ resetDelay: 10 }));
+        return bno055.init().toPromise()
+            .then(() => {
+                bno055.suspend().subscribe().unsubscribe();
+                return bno055.streamQuaternions(10).pipe(take(3), toArray()).toPromise();
+            })
+            .then(quaternions => {
+                assert.strictEqual(quaternions.length, 3);
+                assert.strictEqual(bno055.powerMode, "normal");
+            });
+    });
+
+
+    it("times out when the module never boots", () => {
+        const bno055 = createDriver(new Bno055Emulator({ neverBoot: true }), { bootTimeout: 200 });
+        return bno055.init().toPromise().then(
+            () => assert.fail("the initialization should have failed"),
+            err => {
+                assert.ok(err instanceof Bno055BootTimeoutError, `unexpected error ${err}`);
+                assert.strictEqual(err.timeout, 200);
+            }
+        );
+    });
+
+
+    it("reports a wrong chip ID, even one of zero", () => {
+        const bno055 = createDriver(new Bno055Emulator({ chipId: 0x00 }), { bootTimeout: 200 });
+        return bno055.init().toPromise().then(
+            () => assert.fail("the initialization should have failed"),
+            err => {
+                assert.ok(err instanceof Bno055ChipIdError, `unexpected error ${err}`);
+                assert.strictEqual(err.actualId, 0x00);
+            }
+        );
+    });
+
+
+    it("rejects block reads longer than the I2C bus allows", () => {
+        const emulator = new Bno055Emulator();
+        assert.throws(() => emulator.readI2cBlock(0x28, 0x00, 33, Buffer.alloc(33), () => undefined), /Invalid buffer length 33/);
+    });
+});
@@ -0,0 +1,180 @@
+/*
+ * test/filters.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Tests of the filter operators, using samples with known times.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import * as assert from "assert";
+import { from as fromObservable, OperatorFunction } from "rxjs";
+import { toArray } from "rxjs/operators";
+
+import {
+    averageQuaternions,
+    axisAngleToQuaternion,
+    decimate,
+    highPass,
+    lowPass,
+    medianFilter,
+    movingAverage,
+    rejectSpikes,
+    resample,
+    Quaternion,
+    Vector
+} from "../index";
+
+
+const tolerance = 1e-9;
+
+
+// each sample carries its time in milliseconds, which the filters are told to use
+interface TimedVector extends Vector {
+    t: number;
+}
+
+
+interface TimedQuaternion extends Quaternion {
+    t: number;
+}
+
+
+const byTime = { timestamp: (sample: { t: number }) => sample.t };
+
+
+function assertClose(actual: number, expected: number, message: string): void {
+    assert.ok(Math.abs(actual - expected) < tolerance, `${message}: expected ${expected} but was ${actual}`);
+}
+
+
+function assertXs(actual: TimedVector[], expected: number[]): void {
+    assert.strictEqual(actual.length, expected.length, `expected ${expected} but was ${actual.map(sample => sample.x)}`);
+    actual.forEach((sample, index) => assertClose(sample.x, expected[index], `x at ${sample.t} ms`));
+}
+
+
+function rotationAboutZ(angle: number, t: number): TimedQuaternion {
+    return { ...axisAngleToQuaternion({ axis: { x: 0, y: 0, z: 1 }, angle }), t };
+}
+
+
+function run<T>(samples: T[], operator: OperatorFunction<T, T>): Promise<T[]> {
+    return fromObservable(samples).pipe(operator, toArray()).toPromise();
+}
+
+
+// samples along X from pairs of a time and a value
+function samplesOf(points: Array<[number, number]>): TimedVector[] {
+    return points.map(([t, x]) => ({ x, y: 0, z: 0, t }));
+}
+
+
+describe("filters", () => {
+    describe("lowPass", () => {
+        it("moves towards each sample by the weight for the time since the last one", () => {
+            const input = samplesOf([[0, 0], [100, 10], [100, 100], [300, 20]]);
+            return run(input, lowPass<TimedVector>(100, byTime)).then(output => {
+                // a repeated timestamp adds nothing
+                const afterOne = 10 * (1 - Math.exp(-1));
+                assertXs(output, [0, afterOne, afterOne, afterOne + (20 - afterOne) * (1 - Math.exp(-2))]);
+                assert.deepStrictEqual(output.map(sample => sample.t), [0, 100, 100, 300]);
+            });
+        });
+
+        it("interpolates quaternions along the shorter arc", () => {
+            // with this time constant, half of the way is covered in 100 ms
+            const quarterTurn = rotationAboutZ(90, 100);
+            const negated = { w: -quarterTurn.w, x: -quarterTurn.x, y: -quarterTurn.y, z: -quarterTurn.z, t: 100 };
+            return run([rotationAboutZ(0, 0), negated], lowPass<TimedQuaternion>(100 / Math.LN2, byTime)).then(output => {
+                const expected = rotationAboutZ(45, 100);
+                const dot = output[1].w * expected.w + output[1].x * expected.x + output[1].y * expected.y + output[1].z * expected.z;
+                assertClose(Math.abs(dot), 1, "the orientation halfway");
+            });
+        });
+
+        it("starts again for each subscription", () => {
+            const filtered = fromObservable(samplesOf([[0, 0], [100, 10]])).pipe(lowPass<TimedVector>(100, byTime), toArray());
+            return Promise.all([filtered.toPromise(), filtered.toPromise()])
+                .then(([first, second]) => assert.deepStrictEqual(first, second));
+        });
+    });
+
+
+    describe("highPass", () => {
+        it("passes a step and then decays", () => {
+            const input = samplesOf([[0, 0], [100, 10], [200, 10], [300, 10]]);
+            return run(input, highPass<TimedVector>(100, byTime)).then(output => assertXs(output, [0, 5, 2.5, 1.25]));
+        });
+
+        it("removes a constant offset", () => {
+            const input = samplesOf([[0, 9.8], [50, 9.8], [200, 9.8]]);
+            return run(input, highPass<TimedVector>(100, byTime)).then(output => assertXs(output, [0, 0, 0]));
+        });
+    });
+
+
+    describe("movingAverage", () => {
+        it("weights the samples by the time they cover within the window", () => {
+            // the first sample only counts for its share of the time after the window starts
+            const input = samplesOf([[0, 0], [20, 10], [100, 20], [150, 40]]);
+            return run(input, movingAverage<TimedVector>(100, byTime)).then(output => assertXs(output, [0, 5, 13, 22.5]));
+        });
+    });
+
+
+    describe("averageQuaternions", () => {
+        it("averages quaternions from both hemispheres as the same orientations", () => {
+            const quarterTurn = rotationAboutZ(90, 100);
+            const negated = { w: -quarterTurn.w, x: -quarterTurn.x, y: -quarterTurn.y, z: -quarterTurn.z, t: 100 };
+            return run([rotationAboutZ(0, 0), negated], averageQuaternions<TimedQuaternion>(100, byTime)).then(output => {
+                // the average is in the hemisphere of the latest sample
+                const expected = rotationAboutZ(45, 100);
+                assertClose(output[1].w, -expected.w, "w");
+                assertClose(output[1].z, -expected.z, "z");
+                assert.strictEqual(output[1].t, 100);
+            });
+        });
+    });
+
+
+    describe("medianFilter", () => {
+        it("gives the median of the samples within the window", () => {
+            const input = samplesOf([[0, 1], [25, 100], [50, 2], [75, 3], [150, 4]]);
+            return run(input, medianFilter<TimedVector>(100, byTime)).then(output => assertXs(output, [1, 50.5, 2, 2.5, 3]));
+        });
+    });
+
+
+    describe("rejectSpikes", () => {
+        it("drops a sample far from the median of the window", () => {
+            const input = samplesOf([[0, 1], [20, 2], [40, 50], [60, 3], [80, 4]]);
+            return run(input, rejectSpikes<TimedVector>(5, 100, byTime)).then(output => assertXs(output, [1, 2, 3, 4]));
+        });
+
+        it("passes a lasting change once it is most of the window", () => {
+            const input = samplesOf([[0, 0], [20, 0], [40, 0], [60, 0], [80, 0], [100, 10], [120, 10], [140, 10], [160, 10], [180, 10]]);
+            return run(input, rejectSpikes<TimedVector>(4, 100, byTime)).then(output => {
+                assert.deepStrictEqual(output.map(sample => sample.t), [0, 20, 40, 60, 80, 160, 180]);
+            });
+        });
+    });
+
+
+    describe("decimate", () => {
+        it("passes the first of every group of samples", () => {
+            return run([0, 1, 2, 3, 4, 5, 6, 7], decimate<number>(3)).then(output => assert.deepStrictEqual(output, [0, 3, 6]));
+        });
+    });
+
+
+    describe("resample", () => {
+        it("passes the sample closest to the start of each interval without drifting", () => {
+            const input = samplesOf([[0, 0], [30, 1], [60, 2], [90, 3], [120, 4], [150, 5], [180, 6], [210, 7], [240, 8], [270, 9], [300, 10]]);
+            return run(input, resample<TimedVector>(100, byTime)).then(output => {
+                assert.deepStrictEqual(output.map(sample => sample.t), [0, 90, 210, 300]);
+            });
+        });
+    });
+});
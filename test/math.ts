@@ -0,0 +1,134 @@
+/*
+ * test/math.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Tests of the orientation math.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import * as assert from "assert";
+
+import {
+    axisAngleToQuaternion,
+    eulerToQuaternion,
+    quaternionMultiply,
+    quaternionSlerp,
+    quaternionToAxisAngle,
+    quaternionToEuler,
+    quaternionToRotationMatrix,
+    relativeOrientation,
+    rotationMatrixToQuaternion,
+    Quaternion
+} from "../index";
+
+
+const tolerance = 1e-9;
+
+
+function assertClose(actual: number, expected: number, message: string): void {
+    assert.ok(Math.abs(actual - expected) < tolerance, `${message}: expected ${expected} but was ${actual}`);
+}
+
+
+function assertSameOrientation(actual: Quaternion, expected: Quaternion): void {
+    // q and -q are the same orientation
+    const dot = actual.w * expected.w + actual.x * expected.x + actual.y * expected.y + actual.z * expected.z;
+    assertClose(Math.abs(dot), 1, `${JSON.stringify(actual)} is not ${JSON.stringify(expected)}`);
+}
+
+
+function rotation(axis: "x" | "y" | "z", angle: number): Quaternion {
+    return axisAngleToQuaternion({ axis: { x: axis === "x" ? 1 : 0, y: axis === "y" ? 1 : 0, z: axis === "z" ? 1 : 0 }, angle });
+}
+
+
+describe("math", () => {
+    describe("Euler angles", () => {
+        it("converts to a quaternion and back", () => {
+            const euler = { heading: 200, roll: -30, pitch: 45 };
+            const result = quaternionToEuler(eulerToQuaternion(euler));
+            assertClose(result.heading, euler.heading, "heading");
+            assertClose(result.roll, euler.roll, "roll");
+            assertClose(result.pitch, euler.pitch, "pitch");
+        });
+
+        [90, -90].forEach(pitch => {
+            it(`puts the whole rotation about Z in the heading in gimbal lock at a pitch of ${pitch}`, () => {
+                const q = eulerToQuaternion({ heading: 40, roll: 10, pitch });
+                const result = quaternionToEuler(q);
+                assertClose(result.pitch, pitch, "pitch");
+                assertClose(result.roll, 0, "roll");
+                assertSameOrientation(eulerToQuaternion(result), q);
+            });
+        });
+    });
+
+    describe("rotation matrices", () => {
+        // the half turns have a negative trace, so each branch of the conversion is used
+        const quaternions: Array<[string, Quaternion]> = [
+            ["the identity", { w: 1, x: 0, y: 0, z: 0 }],
+            ["a small rotation", eulerToQuaternion({ heading: 10, roll: 20, pitch: 30 })],
+            ["a half turn about X", rotation("x", 180)],
+            ["a half turn about Y", rotation("y", 180)],
+            ["a half turn about Z", rotation("z", 180)],
+            ["a large rotation", axisAngleToQuaternion({ axis: { x: 1, y: -2, z: 3 }, angle: 170 })]
+        ];
+
+        quaternions.forEach(([name, q]) => {
+            it(`converts ${name} to a matrix and back`, () => {
+                assertSameOrientation(rotationMatrixToQuaternion(quaternionToRotationMatrix(q)), q);
+            });
+        });
+    });
+
+    describe("axis-angle", () => {
+        it("converts to a quaternion and back", () => {
+            const result = quaternionToAxisAngle(axisAngleToQuaternion({ axis: { x: 0, y: 3, z: 4 }, angle: 120 }));
+            assertClose(result.axis.x, 0, "axis x");
+            assertClose(result.axis.y, 0.6, "axis y");
+            assertClose(result.axis.z, 0.8, "axis z");
+            assertClose(result.angle, 120, "angle");
+        });
+
+        it("uses the smaller angle for a negated quaternion", () => {
+            const q = axisAngleToQuaternion({ axis: { x: 0, y: 0, z: 1 }, angle: 90 });
+            const result = quaternionToAxisAngle({ w: -q.w, x: -q.x, y: -q.y, z: -q.z });
+            assertClose(result.axis.z, 1, "axis z");
+            assertClose(result.angle, 90, "angle");
+        });
+
+        it("has no rotation for the identity", () => {
+            assertClose(quaternionToAxisAngle({ w: 1, x: 0, y: 0, z: 0 }).angle, 0, "angle");
+        });
+    });
+
+    describe("quaternionSlerp", () => {
+        it("interpolates along the shorter arc across hemispheres", () => {
+            const quarterTurn = rotation("z", 90);
+            const negated = { w: -quarterTurn.w, x: -quarterTurn.x, y: -quarterTurn.y, z: -quarterTurn.z };
+            assertSameOrientation(quaternionSlerp({ w: 1, x: 0, y: 0, z: 0 }, negated, 0.5), rotation("z", 45));
+        });
+
+        it("gives the end points at 0 and 1", () => {
+            const a = rotation("x", 30);
+            const b = rotation("y", 60);
+            assertSameOrientation(quaternionSlerp(a, b, 0), a);
+            assertSameOrientation(quaternionSlerp(a, b, 1), b);
+        });
+    });
+
+    describe("relativeOrientation", () => {
+        it("gives the rotation from the reference orientation", () => {
+            const reference = rotation("z", 90);
+            const change = rotation("x", 30);
+            assertSameOrientation(relativeOrientation(reference, quaternionMultiply(reference, change)), change);
+        });
+
+        it("gives the identity for the reference orientation", () => {
+            const reference = eulerToQuaternion({ heading: 120, roll: 15, pitch: -20 });
+            assertSameOrientation(relativeOrientation(reference, reference), { w: 1, x: 0, y: 0, z: 0 });
+        });
+    });
+});
@@ -0,0 +1,65 @@
+/*
+ * test/queue.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Tests of the queue that serializes bus transactions.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import * as assert from "assert";
+import { NEVER, Observable, of as ofObservable, TimeoutError, timer as timerObservable } from "rxjs";
+import { map } from "rxjs/operators";
+
+import { TransactionQueue } from "../src/queue";
+
+
+describe("TransactionQueue", () => {
+    it("does not start a transaction until the one before it has finished", () => {
+        const queue = new TransactionQueue();
+        const events: string[] = [];
+        const transaction = (name: string): () => Observable<string> => () => {
+            events.push(`start ${name}`);
+            return timerObservable(20).pipe(map(() => {
+                events.push(`end ${name}`);
+                return name;
+            }));
+        };
+        return Promise.all([queue.enqueue(transaction("a"), 100).toPromise(), queue.enqueue(transaction("b"), 100).toPromise()])
+            .then(() => assert.deepStrictEqual(events, ["start a", "end a", "start b", "end b"]));
+    });
+
+
+    it("times a transaction from when it is queued", () => {
+        const queue = new TransactionQueue();
+        let started = false;
+        queue.enqueue(() => NEVER, 200).subscribe(undefined, () => undefined);
+        const queuedAt = Date.now();
+        return queue.enqueue(() => {
+            started = true;
+            return ofObservable(1);
+        }, 50).toPromise().then(
+            () => assert.fail("the transaction should have timed out"),
+            err => {
+                assert.ok(err instanceof TimeoutError, `unexpected error ${err}`);
+                assert.ok(Date.now() - queuedAt < 150, "the timeout waited for the transaction before it");
+                assert.strictEqual(started, false);
+            }
+        );
+    });
+
+
+    it("starts the next transaction once a transaction that never returns passes its time limit", () => {
+        const queue = new TransactionQueue();
+        const stuck = queue.enqueue(() => NEVER, 50).toPromise().then(
+            () => assert.fail("the transaction should have timed out"),
+            err => assert.ok(err instanceof TimeoutError, `unexpected error ${err}`)
+        );
+        const next = queue.enqueue(() => ofObservable("next")).toPromise();
+        return Promise.all([stuck, next]).then(([_, value]) => {
+            assert.strictEqual(value, "next");
+            assert.strictEqual(queue.pendingCount, 0);
+        });
+    });
+});
@@ -0,0 +1,127 @@
+/*
+ * test/recording.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Tests of recording streams and replaying them.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import * as assert from "assert";
+import { Observable } from "rxjs";
+import { map, toArray } from "rxjs/operators";
+import { Writable } from "stream";
+
+import { Bno055Error, Bno055RecordedSample, Bno055RecordedStream, Bno055Recorder, Bno055Recording, Bno055RecordingFormat, Bno055Replay } from "../index";
+
+
+// how far a sample may be from its recorded time, in milliseconds
+const tolerance = 25;
+
+
+const recording: Bno055Recording = {
+    header: {
+        version: 1,
+        startTime: "2018-07-01T12:00:00.000Z",
+        mode: "ndof",
+        device: {
+            chipId: 0xA0,
+            accelerometerRevision: 0xFB,
+            magnetometerRevision: 0x32,
+            gyroscopeRevision: 0x0F,
+            softwareRevision: 0x0311,
+            bootloaderRevision: 0x15
+        },
+        streams: ["accelerometer", "quaternion", "calibrationStatus"],
+        interval: 100
+    },
+    samples: [
+        { time: 0, stream: "accelerometer", value: { x: 0.25, y: -1.5, z: 9.81, unit: "m/s^2" } },
+        { time: 20, stream: "calibrationStatus", value: { system: 0, gyroscope: 1, accelerometer: 2, magnetometer: 3 } },
+        { time: 40, stream: "quaternion", value: { w: 0.9659258262890683, x: 0, y: 0, z: 0.25881904510252074 } },
+        { time: 100, stream: "accelerometer", value: { x: 0.5, y: -1.25, z: 9.75, unit: "m/s^2" } },
+        { time: 140, stream: "quaternion", value: { w: 1, x: 0, y: 0, z: 0 } },
+        { time: 200, stream: "accelerometer", value: { x: -0.125, y: 0, z: 9.8, unit: "m/s^2" } }
+    ]
+};
+
+
+// collects everything written by the recorder
+class TextOutput extends Writable {
+    _write(chunk: Buffer, _encoding: string, callback: (err?: Error) => void): void {
+        this.text += chunk.toString();
+        callback();
+    }
+
+
+    text: string = "";
+}
+
+
+function record(source: Bno055Replay, format: Bno055RecordingFormat): Promise<string> {
+    const output = new TextOutput();
+    const recorder = new Bno055Recorder(source, { streams: recording.header.streams, format, interval: recording.header.interval });
+    return recorder.record(output).toPromise().then(() => output.text);
+}
+
+
+function samplesOf(samples: Bno055RecordedSample[], stream: Bno055RecordedStream): Bno055RecordedSample[] {
+    return samples.filter(sample => sample.stream === stream);
+}
+
+
+function timed<T>(stream: Observable<T>): Promise<Array<{ value: T, offset: number }>> {
+    const start = Date.now();
+    return stream.pipe(map(value => ({ value, offset: Date.now() - start })), toArray()).toPromise();
+}
+
+
+describe("recording and replay", function (): void {
+    this.timeout(5000);
+
+    (["ndjson", "csv"] as Bno055RecordingFormat[]).forEach(format => {
+        it(`reads a ${format} recording back with the same values and timing`, () => {
+            return record(new Bno055Replay(recording), format).then(text => {
+                const result = Bno055Replay.parse(text);
+                assert.strictEqual(result.header.mode, recording.header.mode);
+                assert.deepStrictEqual(result.header.device, recording.header.device);
+                assert.deepStrictEqual(result.header.streams, recording.header.streams);
+                assert.strictEqual(result.header.interval, recording.header.interval);
+
+                recording.header.streams.forEach(stream => {
+                    const expected = samplesOf(recording.samples, stream);
+                    const actual = samplesOf(result.samples, stream);
+                    assert.deepStrictEqual(actual.map(sample => sample.value), expected.map(sample => sample.value));
+                    actual.forEach((sample, index) => assert.ok(Math.abs(sample.time - expected[index].time) < tolerance,
+                        `the ${stream} sample recorded at ${expected[index].time} ms was at ${sample.time} ms`));
+                });
+            });
+        });
+    });
+
+
+    it("replays the samples at their recorded times divided by the speed", () => {
+        const expected = samplesOf(recording.samples, "accelerometer");
+        return timed(new Bno055Replay(recording, { speed: 2 }).streamAccelerometer()).then(samples => {
+            assert.deepStrictEqual(samples.map(sample => sample.value), expected.map(sample => sample.value));
+            samples.forEach((sample, index) => {
+                const time = expected[index].time / 2;
+                assert.ok(sample.offset >= time - 1 && sample.offset < time + tolerance, `the sample for ${time} ms was at ${sample.offset} ms`);
+            });
+        });
+    });
+
+
+    it("replays the samples without waiting at the maximum speed", () => {
+        return timed(new Bno055Replay(recording, { speed: "max" }).streamQuaternions()).then(samples => {
+            assert.deepStrictEqual(samples.map(sample => sample.value), samplesOf(recording.samples, "quaternion").map(sample => sample.value));
+            assert.ok(samples[samples.length - 1].offset < tolerance, `the last sample was at ${samples[samples.length - 1].offset} ms`);
+        });
+    });
+
+
+    it("rejects an empty recording", () => {
+        assert.throws(() => Bno055Replay.parse("\n"), (err: Error) => err instanceof Bno055Error && /empty/.test(err.message));
+    });
+});
@@ -0,0 +1,80 @@
+/*
+ * test/uartTransport.ts
+ * https://github.com/101100/bno055-rx
+ *
+ * Tests of the UART transport against a scripted module.
+ *
+ * Copyright (c) 2018 Jason Heard
+ * Licensed under the MIT license.
+ */
+
+import * as assert from "assert";
+import { Duplex } from "stream";
+
+import { Bno055BusError, UartTransport } from "../index";
+
+
+// answers each read command with the register addresses as data, except for the
+// commands it is told to ignore; the replies are sent in pieces of at most 72 bytes
+class ScriptedModule extends Duplex {
+    constructor(private _ignoredCommands: number = 0) {
+        super();
+    }
+
+
+    _read(): void {
+        // replies are pushed as commands are written
+    }
+
+
+    _write(command: Buffer, _encoding: string, callback: (err?: Error) => void): void {
+        this.commands.push(command);
+        callback();
+        if (this._ignoredCommands > 0) {
+            this._ignoredCommands--;
+            return;
+        }
+
+        const register = command[2];
+        const length = command[3];
+        const reply = [0xBB, length];
+        for (let i = 0; i < length; i++) {
+            reply.push((register + i) & 0xFF);
+        }
+        for (let offset = 0; offset < reply.length; offset += 72) {
+            const piece = new Buffer(reply.slice(offset, offset + 72));
+            setImmediate(() => this.push(piece));
+        }
+    }
+
+
+    readonly commands: Buffer[] = [];
+}
+
+
+describe("UartTransport", () => {
+    it("reads long blocks with several commands", () => {
+        const scripted = new ScriptedModule();
+        const transport = new UartTransport(scripted);
+        return transport.readBytes(0x00, 200).toPromise().then(buffer => {
+            assert.strictEqual(buffer.length, 200);
+            assert.strictEqual(buffer[199], 199);
+            assert.deepStrictEqual(scripted.commands.map(command => command[3]), [128, 72]);
+        });
+    });
+
+
+    it("fails a command that is not answered and then runs the next one", () => {
+        const scripted = new ScriptedModule(1);
+        const transport = new UartTransport(scripted, 50);
+        const failed = transport.readByte(0x08).toPromise().then(
+            () => assert.fail("the read should have failed"),
+            err => {
+                assert.ok(err instanceof Bno055BusError, `unexpected error ${err}`);
+                assert.strictEqual(err.register, 0x08);
+            }
+        );
+        const next = transport.readByte(0x09).toPromise();
+        return Promise.all([failed, next]).then(([_, byte]) => assert.strictEqual(byte, 0x09));
+    });
+});